@@ -0,0 +1,86 @@
+/**
+ * Words as they are written in the docs: identifiers keep their case and inner
+ * underscores/hyphens (e.g. ConvAI, phone_number, text-to-speech).
+ */
+const WORD_PATTERN = /[A-Za-z][A-Za-z0-9]*(?:[_-][A-Za-z0-9]+)*/g;
+const MIN_TERM_LENGTH = 3;
+
+// Spellings are compared without case and separators, so phonenumber, phone_number and PhoneNumber meet
+function normalizeTerm(term) {
+    return term.toLowerCase().replace(/[_-]/g, '');
+}
+
+/**
+ * Builds the term dictionary used for did-you-mean suggestions.
+ * Schema names and operationIds are taken as written and define a term's canonical spelling;
+ * path segments, headings and body text add frequency, and the most common spelling is used for
+ * terms that are not API names.
+ * @param {object[]} apiData - Rows produced by parseOpenApiFiles.
+ * @param {object[]} markdownData - Rows produced by parseMarkdownFiles.
+ * @returns {object[]} - One row per normalized term: { term, normalized, kind, frequency }.
+ */
+export function buildVocabulary(apiData, markdownData) {
+    console.log('Building search vocabulary...');
+    const entries = new Map(); // normalized -> { canonical, fallback, kind, forms: Map<spelling, count>, frequency }
+
+    // spelling: 'canonical' (API names), 'counted' (text, most common wins) or 'fallback' (only if nothing else)
+    const add = (term, kind, spelling = 'counted') => {
+        if (!term || term.length < MIN_TERM_LENGTH) return;
+        const normalized = normalizeTerm(term);
+        let entry = entries.get(normalized);
+        if (!entry) {
+            entry = { canonical: null, fallback: null, kind, forms: new Map(), frequency: 0 };
+            entries.set(normalized, entry);
+        }
+        if (spelling === 'canonical' && !entry.canonical) {
+            entry.canonical = term;
+            entry.kind = kind;
+        }
+        if (spelling === 'fallback') {
+            entry.fallback = entry.fallback || term;
+        } else {
+            entry.forms.set(term, (entry.forms.get(term) || 0) + 1);
+        }
+        entry.frequency++;
+    };
+    // Sentence-case words ("Streaming" at the start of a sentence) count as their lowercase spelling
+    const addWords = (text, kind) => {
+        for (const word of (text || '').match(WORD_PATTERN) || []) {
+            add(/^[A-Z][a-z0-9]*$/.test(word) ? word.toLowerCase() : word, kind);
+        }
+    };
+
+    // API names first, so they set the canonical spelling
+    for (const row of apiData) {
+        if (row.type === 'schema') add(row.summary, 'schema', 'canonical');
+        if (row.operationId) add(row.operationId, 'operationId', 'canonical');
+        for (const segment of (row.apiPath || '').split('/')) {
+            // Path segments are lowercase by convention, so they do not decide the spelling
+            if (segment && !segment.startsWith('{')) add(segment, 'path', 'fallback');
+        }
+    }
+    for (const row of markdownData) {
+        for (const heading of [row.heading1, row.heading2, row.heading3]) addWords(heading, 'heading');
+    }
+    for (const row of apiData) {
+        addWords(row.summary, 'word');
+        addWords(row.description, 'word');
+        addWords(row.content, 'word');
+    }
+    for (const row of markdownData) {
+        addWords(row.content, 'word');
+    }
+
+    const vocabulary = [];
+    for (const [normalized, entry] of entries) {
+        const mostCommon = [...entry.forms].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0];
+        vocabulary.push({
+            term: entry.canonical || mostCommon || entry.fallback,
+            normalized,
+            kind: entry.kind,
+            frequency: entry.frequency,
+        });
+    }
+    console.log(`Finished building search vocabulary. Found ${vocabulary.length} terms.`);
+    return vocabulary;
+}
@@ -0,0 +1,89 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { fileURLToPath } from 'url';
+
+const execFileAsync = promisify(execFile);
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Reads the commit a docs checkout is at.
+ * @param {string} basePath - Path to the checkout.
+ * @returns {Promise<{ sha: string | null, date: string | null }>} - Commit SHA and ISO commit date (null if not a git checkout).
+ */
+export async function readDocsCommit(basePath) {
+    try {
+        const { stdout } = await execFileAsync('git', ['-C', basePath, 'log', '-1', '--format=%H%n%cI']);
+        const [sha, date] = stdout.trim().split('\n');
+        return { sha: sha || null, date: date || null };
+    } catch (error) {
+        console.warn(`Could not read the docs commit in ${basePath}:`, error.message);
+        return { sha: null, date: null };
+    }
+}
+
+// The ETL ships with the server, so its version is the package version
+async function readEtlVersion() {
+    const packageJson = JSON.parse(await fs.readFile(path.resolve(__dirname, '../package.json'), 'utf-8'));
+    return packageJson.version || null;
+}
+
+/**
+ * Hashes the parsed API rows without their provenance (source, repository, sourceUrl) and published URL,
+ * so an unchanged spec hashes the same at another docs commit.
+ * @param {object[]} apiData - Rows parsed from the API specs.
+ * @returns {string} - SHA-256 hex digest.
+ */
+export function hashApiSpec(apiData) {
+    const hash = createHash('sha256');
+    for (const { source, repository, sourceUrl, url, ...row } of apiData) {
+        hash.update(`${JSON.stringify(row)}\n`);
+    }
+    return hash.digest('hex');
+}
+
+/**
+ * Reads the apiSpecHash of an existing build.
+ * @param {string} metaParquetPath - Path to its index_metadata.parquet.
+ * @param {import('@duckdb/node-api').DuckDBConnection} connection - Active DuckDB connection.
+ * @returns {Promise<string | null>} - The hash, or null when there is no build or it predates the column.
+ */
+export async function readApiSpecHash(metaParquetPath, connection) {
+    try {
+        const reader = await connection.runAndReadAll('SELECT apiSpecHash FROM read_parquet($path);', { path: metaParquetPath });
+        return reader.getRowObjects()[0]?.apiSpecHash ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Builds the provenance row written to index_metadata.parquet.
+ * docsCommitSha/docsCommitDate are those of the first (main docs) source; sources lists every source.
+ * @param {object[]} sources - Indexed sources ({ name, repository, commit: { sha, date } }), main docs first.
+ * @param {Record<string, number>} tableRowCounts - Rows written per table.
+ * @param {string[]} failedFiles - Relative paths of the files that failed to parse.
+ * @param {string} apiSpecHash - Hash of the API spec rows (see hashApiSpec).
+ * @returns {Promise<object[]>} - A single row: { docsCommitSha, docsCommitDate, builtAt, etlVersion, tableRowCounts, failedFileCount, failedFiles, sources, apiSpecHash }.
+ */
+export async function buildIndexMetadata(sources, tableRowCounts, failedFiles, apiSpecHash) {
+    const commit = sources[0].commit;
+    return [{
+        docsCommitSha: commit.sha,
+        docsCommitDate: commit.date,
+        builtAt: new Date().toISOString(),
+        etlVersion: await readEtlVersion(),
+        tableRowCounts: JSON.stringify(tableRowCounts),
+        failedFileCount: failedFiles.length,
+        failedFiles: JSON.stringify(failedFiles),
+        sources: JSON.stringify(sources.map((source) => ({
+            name: source.name,
+            repository: source.repository,
+            commitSha: source.commit.sha,
+            commitDate: source.commit.date,
+        }))),
+        apiSpecHash,
+    }];
+}
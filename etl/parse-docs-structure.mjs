@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import path from 'path';
+import yaml from 'js-yaml';
+
+/**
+ * Parses the Fern navigation (fern/docs.yml) into flat node rows.
+ * Each row has an id and parentId so the sidebar tree can be rebuilt at query time:
+ * - root: the docs site (title from docs.yml, href is the published site URL)
+ * - tab: a navigation tab (slug is the tab key)
+ * - section: a (possibly nested) section with its contents as children
+ * - page: a page; filePath is relative to the submodule root, matching docs_content.filePath
+ * - api: the API reference; filePath is the API definition directory (fern/apis/<api-name>) when api-name is set
+ * - link, changelog: other navigation entries
+ * @param {string} basePath - Path to the documentation submodule root.
+ * @param {string[]} [failedFiles=[]] - Receives the relative path of docs.yml if it exists but fails to parse.
+ * @returns {Promise<object[]>} - Array of navigation node rows (empty if docs.yml is missing).
+ */
+export async function parseDocsStructure(basePath, failedFiles = []) {
+    console.log('Parsing docs navigation (fern/docs.yml)...');
+    const docsYmlPath = path.join(basePath, 'fern', 'docs.yml');
+    // Paths in docs.yml are relative to the directory containing it
+    const docsYmlDir = path.relative(basePath, path.dirname(docsYmlPath));
+
+    let parsedYaml;
+    try {
+        parsedYaml = yaml.load(await fs.readFile(docsYmlPath, 'utf-8'));
+    } catch (error) {
+        console.warn(`Could not read ${docsYmlPath}, skipping navigation:`, error.message);
+        // A missing docs.yml is not a failure; invalid YAML is
+        if (error.code !== 'ENOENT') failedFiles.push(path.relative(basePath, docsYmlPath));
+        return [];
+    }
+    if (!parsedYaml || typeof parsedYaml !== 'object') {
+        console.warn(`Failed to parse ${docsYmlPath}, skipping navigation.`);
+        failedFiles.push(path.relative(basePath, docsYmlPath));
+        return [];
+    }
+
+    const nodes = [];
+    const addNode = (node) => {
+        const row = {
+            id: nodes.length,
+            parentId: null,
+            tab: null,
+            type: null,
+            title: null,
+            filePath: null,
+            href: null,
+            icon: null,
+            slug: null,
+            skipSlug: false,
+            hidden: false,
+            ...node,
+        };
+        nodes.push(row);
+        return row.id;
+    };
+    const resolvePagePath = (pagePath) =>
+        pagePath ? path.posix.normalize(path.posix.join(docsYmlDir.split(path.sep).join('/'), pagePath)) : null;
+
+    // Handles one layout/contents item and recurses into nested sections
+    const addItem = (item, parentId, tab) => {
+        if (!item || typeof item !== 'object') return;
+        const common = {
+            parentId,
+            tab,
+            icon: item.icon || null,
+            slug: item.slug || null,
+            skipSlug: item['skip-slug'] || false,
+            hidden: item.hidden || false,
+        };
+        if (item.section) {
+            const sectionId = addNode({ ...common, type: 'section', title: item.section, filePath: resolvePagePath(item.path) });
+            for (const child of item.contents || []) {
+                addItem(child, sectionId, tab);
+            }
+        } else if (item.page) {
+            addNode({ ...common, type: 'page', title: item.page, filePath: resolvePagePath(item.path) });
+        } else if (item.link) {
+            addNode({ ...common, type: 'link', title: item.link, href: item.href || null });
+        } else if (item.changelog) {
+            addNode({ ...common, type: 'changelog', title: item.title || 'Changelog', filePath: resolvePagePath(item.changelog) });
+        } else if (item.api) {
+            addNode({ ...common, type: 'api', title: item.api, filePath: item['api-name'] ? resolvePagePath(`apis/${item['api-name']}`) : null });
+        }
+    };
+
+    // The published site is the first instance, under its custom domain if it has one
+    const instance = (parsedYaml.instances || [])[0] || {};
+    const siteUrl = instance['custom-domain'] || instance.url || null;
+    const rootId = addNode({
+        type: 'root',
+        title: parsedYaml.title || 'ElevenLabs Documentation',
+        href: siteUrl && !/^https?:\/\//.test(siteUrl) ? `https://${siteUrl}` : siteUrl,
+    });
+    const tabs = parsedYaml.tabs || {};
+
+    for (const navItem of parsedYaml.navigation || []) {
+        if (navItem.tab) {
+            const tab = tabs[navItem.tab] || {};
+            const tabId = addNode({
+                parentId: rootId,
+                tab: navItem.tab,
+                type: 'tab',
+                title: tab['display-name'] || navItem.tab,
+                icon: tab.icon || null,
+                slug: tab.slug || navItem.tab,
+                skipSlug: tab['skip-slug'] || false,
+                hidden: tab.hidden || false,
+            });
+            for (const layoutItem of navItem.layout || []) {
+                addItem(layoutItem, tabId, navItem.tab);
+            }
+        } else {
+            // Navigation without tabs: items hang directly off the root
+            addItem(navItem, rootId, null);
+        }
+    }
+
+    console.log(`Finished parsing docs navigation. Found ${nodes.length} nodes.`);
+    return nodes;
+}
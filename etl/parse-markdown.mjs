@@ -2,27 +2,90 @@ import fs from 'fs/promises';
 import path from 'path';
 import { unified } from 'unified';
 import remarkParse from 'remark-parse';
-import { visit } from 'unist-util-visit';
+import remarkMdx from 'remark-mdx';
+import remarkFrontmatter from 'remark-frontmatter';
+import { visitParents } from 'unist-util-visit-parents';
 import { toString } from 'mdast-util-to-string';
-// Consider adding remark-mdx and remark-frontmatter if needed
-// import remarkMdx from 'remark-mdx';
-// import remarkFrontmatter from 'remark-frontmatter';
+import yaml from 'js-yaml';
 import { findFiles } from './utils.mjs';
 
-// Initialize the Markdown parser
-// Add .use(remarkMdx) if you need to handle MDX specific syntax
-// Add .use(remarkFrontmatter, ['yaml', 'toml']) to parse frontmatter
-const parser = unified().use(remarkParse);
+// .mdx pages are parsed as MDX so JSX components (<Tabs>, <Note>, ...) become nodes with their
+// content as children; .md files, and .mdx files that are not valid MDX, as plain Markdown
+const mdxParser = unified().use(remarkParse).use(remarkFrontmatter, ['yaml']).use(remarkMdx);
+const markdownParser = unified().use(remarkParse).use(remarkFrontmatter, ['yaml']);
+
+// Frontmatter keys kept as columns
+const FRONTMATTER_FIELDS = ['title', 'subtitle', 'slug'];
+
+/**
+ * Reads title, subtitle and slug from a page's YAML frontmatter.
+ * @param {object} ast - mdast tree parsed with remark-frontmatter.
+ * @param {string} relativePath - Used in the warning for invalid YAML.
+ * @returns {{ title: string | null, subtitle: string | null, slug: string | null }}
+ */
+function readFrontmatter(ast, relativePath) {
+    const fields = { title: null, subtitle: null, slug: null };
+    const node = ast.children.find((child) => child.type === 'yaml');
+    if (!node) return fields;
+    let data;
+    try {
+        data = yaml.load(node.value);
+    } catch (error) {
+        console.warn(`Invalid frontmatter in ${relativePath}:`, error.message);
+        return fields;
+    }
+    if (!data || typeof data !== 'object') return fields;
+    for (const key of FRONTMATTER_FIELDS) {
+        const value = data[key];
+        if (value !== undefined && value !== null && typeof value !== 'object') fields[key] = String(value).trim() || null;
+    }
+    return fields;
+}
+
+const isJsxElement = (node) => node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement';
+
+/**
+ * Names the JSX components a block sits in, outermost first, e.g. 'Tabs > Tab (Python)'.
+ * A component's string title attribute is added in parentheses.
+ * @param {object} node - The content block.
+ * @param {object[]} ancestors - Ancestors of the block, as passed by visitParents.
+ * @returns {string | null} - null outside of components.
+ */
+function componentContext(node, ancestors) {
+    // A component written on one line (<Note>Text</Note>) is an inline element wrapping the whole paragraph
+    const wrapper = node.type === 'paragraph' && node.children.length === 1 && isJsxElement(node.children[0]) ? node.children : [];
+    const names = [];
+    for (const ancestor of [...ancestors, ...wrapper]) {
+        if (!isJsxElement(ancestor) || !ancestor.name) continue; // Skips fragments (<>...</>)
+        const title = ancestor.attributes?.find((attribute) => attribute.type === 'mdxJsxAttribute' && attribute.name === 'title');
+        names.push(typeof title?.value === 'string' ? `${ancestor.name} (${title.value})` : ancestor.name);
+    }
+    return names.length > 0 ? names.join(' > ') : null;
+}
+
+// Parses a file as MDX when it is one, falling back to Markdown if the MDX is invalid
+function parseContent(content, relativePath) {
+    if (!/\.mdx$/i.test(relativePath)) return markdownParser.parse(content);
+    try {
+        return mdxParser.parse(content);
+    } catch (error) {
+        const line = error.line ?? error.place?.line;
+        console.warn(`Invalid MDX in ${relativePath}${line ? ` (line ${line})` : ''}: ${error.reason ?? error.message}. Parsing it as Markdown instead.`);
+        return markdownParser.parse(content);
+    }
+}
 
 /**
  * Parses Markdown/MDX files found within a directory into structured data.
  * @param {string} basePath - Path to the documentation submodule root.
+ * @param {string[]} [failedFiles=[]] - Receives the relative paths of files that failed to parse.
+ * @param {(relativePath: string) => boolean} [includeFile] - Only parses the files it accepts (all by default).
  * @returns {Promise<object[]>} - Array of structured data extracted from Markdown files.
  */
-export async function parseMarkdownFiles(basePath) {
+export async function parseMarkdownFiles(basePath, failedFiles = [], includeFile = () => true) {
     console.log('Parsing Markdown/MDX files...');
     const markdownData = [];
-    const files = await findFiles(basePath, /\.(md|mdx)$/i);
+    const files = (await findFiles(basePath, /\.(md|mdx)$/i)).filter((file) => includeFile(path.relative(basePath, file)));
 
     for (const file of files) {
         const relativePath = path.relative(basePath, file);
@@ -30,12 +93,13 @@ export async function parseMarkdownFiles(basePath) {
         console.log(`Attempting to parse: ${relativePath}`);
         try {
             const content = await fs.readFile(file, 'utf-8');
-            const ast = parser.parse(content);
+            const ast = parseContent(content, relativePath);
+            const frontmatter = readFrontmatter(ast, relativePath);
 
             let currentHeadings = { h1: null, h2: null, h3: null };
             let blockOrder = 0; // Simple counter for ordering blocks within a file
 
-            visit(ast, (node) => {
+            visitParents(ast, (node, ancestors) => {
                 // Track current headings
                 if (node.type === 'heading') {
                     const headingText = toString(node).trim();
@@ -66,6 +130,10 @@ export async function parseMarkdownFiles(basePath) {
                         heading1: currentHeadings.h1,
                         heading2: currentHeadings.h2,
                         heading3: currentHeadings.h3,
+                        title: frontmatter.title,
+                        subtitle: frontmatter.subtitle,
+                        slug: frontmatter.slug,
+                        component: componentContext(node, ancestors),
                         contentType: node.type,
                         language: language,
                         content: extractedText,
@@ -78,6 +146,7 @@ export async function parseMarkdownFiles(basePath) {
             console.log(`Successfully parsed: ${relativePath}`);
         } catch (error) {
             console.error(`Failed to parse ${relativePath}:`, error);
+            failedFiles.push(relativePath);
         }
     }
     console.log(`Finished parsing Markdown files. Found ${markdownData.length} content blocks.`);
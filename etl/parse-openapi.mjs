@@ -25,36 +25,245 @@ function extractOperationText(operation) {
     return text.join(' ');
 }
 
+/**
+ * Safe JSON stringify to handle circular references in dereferenced specs.
+ * - An object that is one of its own ancestors is replaced by { "$recursiveRef": "<schema title>" }
+ * - Component schemas nested in the value are replaced by { "$schemaRef": "<schema name>" }, so each
+ *   one is written out once, in its own schema row, instead of in every schema and operation using it
+ * @param {any} obj - Value to serialize (written out in full even when it is a component schema itself).
+ * @param {Map<object, string>} [references] - Component schema objects and their names (see componentReferences).
+ * @returns {string} - Pretty-printed JSON.
+ */
+function safeStringify(obj, references = new Map()) {
+    const ancestors = [];
+    const toSerializable = (value) => {
+        if (typeof value !== 'object' || value === null) {
+            return value;
+        }
+        if (ancestors.includes(value)) {
+            return { $recursiveRef: value.title || '[Circular]' };
+        }
+        if (value !== obj && references.has(value)) {
+            return { $schemaRef: references.get(value) };
+        }
+        ancestors.push(value);
+        const result = Array.isArray(value)
+            ? value.map(toSerializable)
+            : Object.fromEntries(Object.entries(value).map(([key, child]) => [key, toSerializable(child)]));
+        ancestors.pop();
+        return result;
+    };
+    return JSON.stringify(toSerializable(obj), null, 2);
+}
+
+/**
+ * Maps the component schemas of a dereferenced spec to the names their schema rows are indexed under
+ * (title, else component key). Names shared by several components are left out, so those are inlined.
+ * @param {object} spec - Dereferenced OpenAPI or AsyncAPI document.
+ * @returns {Map<object, string>}
+ */
+function componentReferences(spec) {
+    const byName = new Map();
+    for (const [key, schema] of Object.entries(spec.components?.schemas || {})) {
+        if (!schema || typeof schema !== 'object') continue;
+        const name = schema.title || key;
+        byName.set(name, byName.has(name) ? null : schema);
+    }
+    const references = new Map();
+    for (const [name, schema] of byName) {
+        if (schema) references.set(schema, name);
+    }
+    return references;
+}
+
+/**
+ * Builds a structured description of an OpenAPI operation: parameters with their location,
+ * request body schema per content type, and response schemas per status code.
+ * @param {object} operation - The dereferenced OpenAPI operation object.
+ * @param {object[]} [pathParameters=[]] - Parameters declared at the path-item level.
+ * @param {object[]} [servers=[]] - Server objects that apply to the operation (operation, path or spec level).
+ * @param {Map<object, string>} [references] - Component schemas written as references (see safeStringify).
+ * @returns {string} - JSON string stored in the operationDefinition column.
+ */
+function buildOperationDefinition(operation, pathParameters = [], servers = [], references = new Map()) {
+    const toPlain = (value) => (value === undefined ? undefined : JSON.parse(safeStringify(value, references)));
+
+    // Operation-level parameters override path-level ones with the same name and location
+    const parameters = new Map();
+    for (const param of [...pathParameters, ...(operation.parameters || [])]) {
+        if (param && param.name) parameters.set(`${param.in}:${param.name}`, param);
+    }
+
+    const mapContent = (content) => {
+        const result = {};
+        for (const contentType in content || {}) {
+            const schema = content[contentType].schema;
+            result[contentType] = {
+                schemaName: (schema && schema.title) || null,
+                schema: toPlain(schema) || null,
+            };
+        }
+        return result;
+    };
+
+    const responses = {};
+    for (const status in operation.responses || {}) {
+        const resp = operation.responses[status] || {};
+        responses[status] = {
+            description: resp.description || null,
+            content: mapContent(resp.content),
+        };
+    }
+
+    return JSON.stringify({
+        operationId: operation.operationId || null,
+        tags: operation.tags || [],
+        // Fern's SDK naming, which also names the operation's API reference page
+        sdkGroup: operation['x-fern-sdk-group-name'] || null,
+        sdkMethod: operation['x-fern-sdk-method-name'] || null,
+        deprecated: operation.deprecated || false,
+        servers: (operation.servers || servers || []).map(server => server.url).filter(Boolean),
+        parameters: [...parameters.values()].map(p => ({
+            name: p.name,
+            in: p.in,
+            required: p.required || false,
+            description: p.description || null,
+            schema: toPlain(p.schema) || null,
+        })),
+        requestBody: operation.requestBody
+            ? {
+                required: operation.requestBody.required || false,
+                description: operation.requestBody.description || null,
+                content: mapContent(operation.requestBody.content),
+            }
+            : null,
+        responses,
+    });
+}
+
+/**
+ * Resolves the local $refs (#/...) of a parsed AsyncAPI document in place; SwaggerParser only reads OpenAPI.
+ * As with SwaggerParser.dereference, every reference to an object shares that object, so recursive
+ * schemas become circular references (which safeStringify marks).
+ * Component schemas and messages without a title/name are named after their key first, so that
+ * payloads are indexed under their component name.
+ * @param {object} spec - Parsed AsyncAPI 2.x or 3.x document.
+ * @returns {object} - The same document, dereferenced.
+ */
+function dereferenceAsyncApi(spec) {
+    if (!spec || typeof spec !== 'object' || !spec.asyncapi) {
+        throw new Error('Not an AsyncAPI document (no asyncapi version)');
+    }
+    const nameEntries = (entries, field) => {
+        for (const [key, value] of Object.entries(entries || {})) {
+            if (value && typeof value === 'object' && !value.$ref && !value[field]) value[field] = key;
+        }
+    };
+    nameEntries(spec.components?.schemas, 'title');
+    nameEntries(spec.components?.messages, 'name');
+    for (const channel of Object.values(spec.channels || {})) nameEntries(channel?.messages, 'name');
+
+    const lookup = (ref) => {
+        let target = spec;
+        for (const key of ref.slice(2).split('/')) {
+            target = target?.[key.replace(/~1/g, '/').replace(/~0/g, '~')];
+        }
+        if (target === undefined) throw new Error(`Cannot resolve $ref ${ref}`);
+        return target;
+    };
+    const resolve = (value, chain = []) => {
+        if (!value || typeof value !== 'object' || typeof value.$ref !== 'string') return value;
+        if (!value.$ref.startsWith('#/')) throw new Error(`Only local $refs are supported in AsyncAPI files: ${value.$ref}`);
+        if (chain.includes(value.$ref)) throw new Error(`Circular $ref ${value.$ref}`);
+        return resolve(lookup(value.$ref), [...chain, value.$ref]);
+    };
+    const visited = new Set();
+    const visit = (node) => {
+        if (!node || typeof node !== 'object' || visited.has(node)) return;
+        visited.add(node);
+        for (const key of Object.keys(node)) {
+            node[key] = resolve(node[key]);
+            visit(node[key]);
+        }
+    };
+    visit(spec);
+    return spec;
+}
+
+/**
+ * Lists the channels of a dereferenced AsyncAPI document with the messages exchanged on each.
+ * Directions are from the client's side: 'send' for messages the client sends, 'receive' for
+ * messages the server sends. The document describes the server, so in AsyncAPI 2.x these are the
+ * channel's publish and subscribe operations, and in 3.x operations with action receive and send.
+ * @param {object} spec - Dereferenced AsyncAPI document.
+ * @returns {{ address: string, channel: object, operations: object[], messages: { name: string, direction: string, message: object }[] }[]}
+ */
+function listAsyncApiChannels(spec) {
+    const messageName = (message) => message.name || message.title || message.messageId || null;
+
+    if (String(spec.asyncapi).startsWith('2.')) {
+        return Object.entries(spec.channels || {}).map(([address, channel]) => {
+            const entry = { address, channel, operations: [], messages: [] };
+            for (const [key, direction] of [['publish', 'send'], ['subscribe', 'receive']]) {
+                const operation = channel[key];
+                if (!operation) continue;
+                entry.operations.push(operation);
+                const message = operation.message;
+                for (const m of message?.oneOf || (message ? [message] : [])) {
+                    entry.messages.push({ name: messageName(m), direction, message: m });
+                }
+            }
+            return entry;
+        });
+    }
+
+    const channels = new Map(); // channel object -> entry
+    for (const [key, channel] of Object.entries(spec.channels || {})) {
+        channels.set(channel, { address: channel.address || key, channel, operations: [], messages: [] });
+    }
+    for (const operation of Object.values(spec.operations || {})) {
+        const entry = channels.get(operation.channel);
+        if (!entry) continue;
+        const direction = operation.action === 'receive' ? 'send' : 'receive';
+        entry.operations.push(operation);
+        const messages = operation.messages?.length ? operation.messages : Object.values(entry.channel.messages || {});
+        for (const m of messages) {
+            entry.messages.push({ name: messageName(m), direction, message: m });
+        }
+    }
+    return [...channels.values()];
+}
+
+/**
+ * Server URLs of an AsyncAPI document (2.x url, or 3.x protocol, host and pathname).
+ * @param {object} spec - Dereferenced AsyncAPI document.
+ * @returns {string[]}
+ */
+function asyncApiServerUrls(spec) {
+    return Object.values(spec.servers || {})
+        .map((server) => server.url || (server.host ? `${server.protocol ? `${server.protocol}://` : ''}${server.host}${server.pathname || ''}` : null))
+        .filter(Boolean);
+}
+
 /**
  * Parses OpenAPI/AsyncAPI JSON/YAML files found within a directory.
  * @param {string} basePath - Path to the documentation submodule root.
  * @param {boolean} [debug=false] - Enable verbose logging in findFiles. // Added debug flag back to JSDoc
+ * @param {string[]} [failedFiles=[]] - Receives the relative paths of files that failed to parse.
+ * @param {(relativePath: string) => boolean} [includeFile] - Only parses the files it accepts (all by default).
  * @returns {Promise<object[]>} - Array of structured data extracted from API specs.
  */
-export async function parseOpenApiFiles(basePath, debug = false) { // Added debug flag parameter back
+export async function parseOpenApiFiles(basePath, debug = false, failedFiles = [], includeFile = () => true) { // Added debug flag parameter back
     console.log('Parsing API specification files...');
     const apiData = [];
     const seenSchemas = new Set(); // To avoid duplicate schemas
     const schemaUsage = {}; // Map schemaName (or hash) -> array of {apiPath, method, operationId}
+    let references = new Map(); // Component schemas of the spec file being parsed (see componentReferences)
 
     // Helper to add schema if not already present, and track usage
-    // Safe JSON stringify to handle circular references
-    function safeStringify(obj) {
-        const seen = new WeakSet();
-        return JSON.stringify(obj, function (key, value) {
-            if (typeof value === "object" && value !== null) {
-                if (seen.has(value)) {
-                    return "[Circular]";
-                }
-                seen.add(value);
-            }
-            return value;
-        }, 2);
-    }
-
     function addSchemaEntry({ schema, schemaName, filePath, fileName, usedBy }) {
         // Use schemaName if available, else hash the schema
-        const key = schemaName || safeStringify(schema);
+        const key = schemaName || safeStringify(schema, references);
         if (!seenSchemas.has(key)) {
             seenSchemas.add(key);
             let content = '';
@@ -73,11 +282,12 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
                 description: schema.description || null,
                 content: content.trim(),
                 lineNumber: null,
-                schemaDefinition: safeStringify(schema),
+                schemaDefinition: safeStringify(schema, references),
                 usedBy: usedBy ? JSON.stringify([usedBy]) : JSON.stringify([])
             });
             if (usedBy) {
-                schemaUsage[key] = [usedBy];
+                if (!schemaUsage[key]) schemaUsage[key] = [];
+                schemaUsage[key].push(usedBy);
             }
         } else if (usedBy) {
             // Add usage to existing entry
@@ -86,15 +296,126 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
         }
     }
 
+    /**
+     * Records a usage for every named schema nested inside a request/response/parameter schema.
+     * fieldPath is where it appears (array items as `[]`, map values as `{key}`) and viaSchema is the
+     * top-level schema it was reached from. Every field that refers to a named schema is recorded, but
+     * each schema is descended into once per root (at its first occurrence), so shared schemas do not
+     * multiply the paths and recursion terminates.
+     */
+    function recordNestedUsage(rootSchema, usage) {
+        const expanded = new Set([rootSchema]);
+        const recorded = new Set();
+        const visit = (schema, fieldPath) => {
+            const children = [];
+            for (const name in schema.properties || {}) {
+                children.push([schema.properties[name], fieldPath ? `${fieldPath}.${name}` : name]);
+            }
+            if (schema.items) children.push([schema.items, `${fieldPath}[]`]);
+            if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                children.push([schema.additionalProperties, `${fieldPath}.{key}`]);
+            }
+            for (const variant of [...(schema.oneOf || []), ...(schema.anyOf || []), ...(schema.allOf || [])]) {
+                children.push([variant, fieldPath]);
+            }
+            for (const [child, childPath] of children) {
+                if (!child || typeof child !== 'object') continue;
+                const key = `${child.title}\0${childPath}`;
+                if (child.title && child.title !== rootSchema.title && !recorded.has(key)) {
+                    recorded.add(key);
+                    if (!schemaUsage[child.title]) schemaUsage[child.title] = [];
+                    schemaUsage[child.title].push({
+                        ...usage,
+                        nested: true,
+                        fieldPath: childPath || null,
+                        viaSchema: rootSchema.title || null,
+                    });
+                }
+                if (expanded.has(child)) continue;
+                expanded.add(child);
+                visit(child, childPath);
+            }
+        };
+        visit(rootSchema, '');
+    }
+
+    /**
+     * Adds one row per AsyncAPI (WebSocket) channel, and its message payloads as schemas.
+     * Channel rows have type 'channel', the channel address as apiPath and, in operationDefinition,
+     * the address, servers, parameters, query/header bindings and messages with their direction
+     * and payload. Payload schemas are used with role 'message' (with channel, direction and message name).
+     */
+    function extractAsyncApiChannels(spec, filePath, fileName) {
+        const toPlain = (value) => (value === undefined ? null : JSON.parse(safeStringify(value, references)));
+        for (const { address, channel, operations, messages } of listAsyncApiChannels(spec)) {
+            for (const { name, direction, message } of messages) {
+                const payload = message.payload;
+                if (!payload || typeof payload !== 'object') continue;
+                // Inline payloads are named after their message
+                if (!payload.title && name) payload.title = name;
+                const usage = { channel: address, role: 'message', direction, message: name };
+                addSchemaEntry({ schema: payload, schemaName: payload.title, filePath, fileName, usedBy: { ...usage, nested: false } });
+                recordNestedUsage(payload, usage);
+            }
+
+            const summary = channel.title || channel.summary || operations.find((op) => op.summary)?.summary || null;
+            const description = channel.description || operations.find((op) => op.description)?.description || null;
+            const text = [summary, description];
+            for (const name in channel.parameters || {}) text.push(name, channel.parameters[name].description);
+            for (const { name, message } of messages) text.push(name, message.title, message.summary, message.description);
+            apiData.push({
+                filePath,
+                fileName,
+                type: 'channel',
+                apiPath: address,
+                method: null,
+                summary,
+                description,
+                content: text.filter(Boolean).join(' '),
+                lineNumber: null,
+                operationId: operations.find((op) => op.operationId)?.operationId || null,
+                tags: JSON.stringify([...new Set(operations.flatMap((op) => (op.tags || []).map((tag) => tag.name || tag)))]),
+                operationDefinition: JSON.stringify({
+                    address,
+                    sdkGroup: channel['x-fern-sdk-group-name'] || null,
+                    sdkMethod: channel['x-fern-sdk-method-name'] || null,
+                    servers: (channel.servers?.length ? channel.servers.map((s) => s.url || s.host).filter(Boolean) : asyncApiServerUrls(spec)),
+                    parameters: Object.entries(channel.parameters || {}).map(([paramName, param]) => ({
+                        name: paramName,
+                        in: 'path',
+                        description: param.description || null,
+                        schema: toPlain(param.schema),
+                    })),
+                    query: toPlain(channel.bindings?.ws?.query),
+                    headers: toPlain(channel.bindings?.ws?.headers),
+                    messages: messages.map(({ name, direction, message }) => ({
+                        name,
+                        direction,
+                        summary: message.summary || message.title || null,
+                        description: message.description || null,
+                        payloadSchema: message.payload?.title || null,
+                        payload: toPlain(message.payload),
+                    })),
+                }),
+            });
+        }
+    }
+
     // Helper to extract schemas from requestBody, responses, parameters
+    // Each usage records the endpoint and the role: requestBody, response (with status) or parameter
     function extractSchemasFromOperation(operation, filePath, fileName, apiPath, method) {
-        const usedBy = { apiPath, method, operationId: operation.operationId || null };
+        const endpoint = { apiPath, method, operationId: operation.operationId || null };
+        const addUsage = (schema, role) => {
+            const usedBy = { ...endpoint, ...role, nested: false };
+            addSchemaEntry({ schema, schemaName: schema.title, filePath, fileName, usedBy });
+            recordNestedUsage(schema, { ...endpoint, ...role });
+        };
         // requestBody
         if (operation.requestBody && operation.requestBody.content) {
             for (const contentType in operation.requestBody.content) {
                 const reqSchema = operation.requestBody.content[contentType].schema;
                 if (reqSchema) {
-                    addSchemaEntry({ schema: reqSchema, schemaName: reqSchema.title, filePath, fileName, usedBy });
+                    addUsage(reqSchema, { role: 'requestBody', contentType });
                 }
             }
         }
@@ -106,7 +427,7 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
                     for (const contentType in resp.content) {
                         const respSchema = resp.content[contentType].schema;
                         if (respSchema) {
-                            addSchemaEntry({ schema: respSchema, schemaName: respSchema.title, filePath, fileName, usedBy });
+                            addUsage(respSchema, { role: 'response', status, contentType });
                         }
                     }
                 }
@@ -116,13 +437,13 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
         if (operation.parameters) {
             for (const param of operation.parameters) {
                 if (param.schema) {
-                    addSchemaEntry({ schema: param.schema, schemaName: param.schema.title, filePath, fileName, usedBy });
+                    addUsage(param.schema, { role: 'parameter', parameter: param.name, in: param.in });
                 }
             }
         }
     }
-    // --- DEBUG: Simplest possible regex - only match openapi.json ---
-    const apiPattern = /openapi\.json/i;
+    // OpenAPI specs (openapi.json) and AsyncAPI specs for the WebSocket APIs (asyncapi.json/.yml/.yaml)
+    const apiPattern = /openapi\.json|asyncapi\.(json|ya?ml)$/i;
 
     // --- Removed Directory Listing Debug ---
     /*
@@ -136,7 +457,8 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
     // Look for openapi.json, asyncapi.yml, etc. Adjust pattern as needed.
     // Call findFiles passing the received debug flag
     console.log(`Searching for API files in ${basePath} with pattern ${apiPattern}`);
-    const files = await findFiles(basePath, apiPattern, 0, debug); // Pass received debug flag
+    const files = (await findFiles(basePath, apiPattern, 0, debug)) // Pass received debug flag
+        .filter((file) => includeFile(path.relative(basePath, file)));
 
     // Log the results returned by findFiles
     console.log(`findFiles returned ${files.length} file(s):`, files);
@@ -151,15 +473,22 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
         console.log(`Attempting to parse: ${relativePath}`);
         try {
             // Dereference resolves $refs and provides a single spec object
-            // It handles both JSON and YAML automatically
-            const spec = await SwaggerParser.dereference(file);
+            // It handles both JSON and YAML automatically (AsyncAPI files are dereferenced here instead)
+            const spec = /asyncapi/i.test(fileName)
+                ? dereferenceAsyncApi(yaml.load(await fs.readFile(file, 'utf-8')))
+                : await SwaggerParser.dereference(file);
             console.log(`Successfully dereferenced: ${relativePath}`);
+            references = componentReferences(spec);
 
             // --- Extract Path/Operation Data ---
             if (spec.paths) {
+                const httpMethods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
                 for (const apiPath in spec.paths) {
-                    for (const method in spec.paths[apiPath]) {
-                        const operation = spec.paths[apiPath][method];
+                    const pathItem = spec.paths[apiPath];
+                    for (const method in pathItem) {
+                        // Skip path-level keys such as "parameters", "summary" or "servers"
+                        if (!httpMethods.includes(method.toLowerCase())) continue;
+                        const operation = pathItem[method];
                         const content = extractOperationText(operation);
                         apiData.push({
                             filePath: relativePath,
@@ -172,6 +501,9 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
                             // Add more specific fields if needed later
                             content: content, // Combined searchable text
                             lineNumber: null, // Line numbers are hard to get accurately from parsed structure
+                            operationId: operation.operationId || null,
+                            tags: JSON.stringify(operation.tags || []),
+                            operationDefinition: buildOperationDefinition(operation, pathItem.parameters, pathItem.servers || spec.servers, references),
                         });
                         // Extract and save schemas used by this operation
                         extractSchemasFromOperation(operation, relativePath, fileName, apiPath, method.toUpperCase());
@@ -179,6 +511,11 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
                 }
             }
 
+            // --- Extract AsyncAPI Channel Data (WebSocket APIs) ---
+            if (spec.asyncapi) {
+                extractAsyncApiChannels(spec, relativePath, fileName);
+            }
+
             // --- Extract Component Schema Data (Example) ---
             if (spec.components && spec.components.schemas) {
                 for (const schemaName in spec.components.schemas) {
@@ -197,10 +534,9 @@ export async function parseOpenApiFiles(basePath, debug = false) { // Added debu
                 }
             }
 
-            // Add extraction for AsyncAPI channels if needed
-
         } catch (error) {
             console.error(`Failed to parse or process ${relativePath}:`, error.message);
+            failedFiles.push(relativePath);
             // Optionally log the full error: console.error(error);
         }
     }
@@ -0,0 +1,154 @@
+// Used when docs.yml names no instance
+const DEFAULT_SITE_URL = 'https://elevenlabs.io/docs';
+
+/**
+ * Slugs titles and SDK names the way Fern does (lodash kebabCase):
+ * "Text to Speech" -> text-to-speech, "ConvAI" -> conv-ai, "convertAsStream" -> convert-as-stream.
+ * @param {string} text
+ * @returns {string}
+ */
+export function kebabSlug(text) {
+    return String(text)
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Heading anchors as the docs site renders them (GitHub style): lowercase, punctuation dropped,
+ * spaces turned into hyphens. "Voice settings (beta)" -> voice-settings-beta.
+ * @param {string} heading
+ * @returns {string}
+ */
+export function headingAnchor(heading) {
+    return heading
+        .trim()
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+        .replace(/\s/g, '-');
+}
+
+/**
+ * Resolves the published URL of every navigation node, docs block and API row, in place (url field).
+ * Only the rows of the source the navigation comes from are published; the others keep url null.
+ * - Navigation: the site URL (root href), then one segment per tab, section and page: its slug, or its
+ *   kebab-cased title; skip-slug nodes add no segment. Two segments are not repeated: a tab whose slug is the
+ *   last segment of the site URL (a "docs" tab under https://elevenlabs.io/docs) and an api node whose slug
+ *   is its tab's (an "API reference" api node in the api-reference tab). Other nodes keep their segment even
+ *   when their parent's is the same (an "Overview" page in an "Overview" section). A page's frontmatter slug
+ *   replaces its whole path.
+ * - Docs blocks: their page's URL plus the anchor of the heading they sit under (level 2 or 3).
+ *   Files that are not in the navigation are not published and keep url null.
+ * - Endpoints and WebSocket channels: their API reference page, under the navigation's api node for
+ *   their API (matched by directory), named by the Fern SDK group and method (otherwise by the first tag, and the
+ *   operationId or, for channels, the last fixed segment of the address).
+ * - Schemas: the API reference page of the first endpoint or channel that uses them.
+ * @param {object[]} navigationData - Rows produced by parseDocsStructure.
+ * @param {object[]} markdownData - Rows produced by parseMarkdownFiles.
+ * @param {object[]} apiData - Rows produced by parseOpenApiFiles.
+ */
+export function resolveUrls(navigationData, markdownData, apiData) {
+    console.log('Resolving published URLs...');
+    const root = navigationData.find((node) => node.type === 'root');
+    if (!root) {
+        console.warn('No docs navigation, so published URLs cannot be resolved; results will link to their source files only.');
+        return;
+    }
+    const siteUrl = (root.href || DEFAULT_SITE_URL).replace(/\/+$/, '');
+    // Last segment of the site's base path (docs for https://elevenlabs.io/docs)
+    const siteSegment = siteUrl.replace(/^[a-z]+:\/\/[^/]*/i, '').split('/').filter(Boolean).pop();
+    const published = (row) => row.source === root.source;
+
+    const frontmatterSlugs = new Map();
+    for (const row of markdownData) {
+        if (published(row) && row.slug && !frontmatterSlugs.has(row.filePath)) frontmatterSlugs.set(row.filePath, row.slug);
+    }
+
+    // Nodes come parents first, so each node extends its parent's path
+    const paths = new Map([[root.id, []]]);
+    const nodeTypes = new Map(navigationData.map((node) => [node.id, node.type]));
+    const pageUrls = new Map();
+    for (const node of navigationData) {
+        node.url = null;
+        if (node.type === 'root') {
+            node.url = siteUrl;
+            continue;
+        }
+        const parentPath = paths.get(node.parentId) || [];
+        const segment = node.type === 'tab' ? node.slug : node.slug || kebabSlug(node.title || '');
+        // A tab named like the site's base path, or an api node named like its tab, is not repeated
+        const repeatsParent =
+            (node.type === 'tab' && parentPath.length === 0 && segment === siteSegment) ||
+            (node.type === 'api' && nodeTypes.get(node.parentId) === 'tab' && segment === parentPath[parentPath.length - 1]);
+        const nodePath = node.skipSlug || !segment || repeatsParent ? parentPath : [...parentPath, segment];
+        paths.set(node.id, nodePath);
+        if (node.type === 'link') continue;
+
+        const slugOverride = node.type === 'page' ? frontmatterSlugs.get(node.filePath) : null;
+        node.url = slugOverride
+            ? `${siteUrl}/${slugOverride.replace(/^\/+/, '')}`
+            : [siteUrl, ...nodePath].join('/');
+        // A file listed twice is published at its first position
+        if (node.filePath && (node.type === 'page' || node.type === 'section') && !pageUrls.has(node.filePath)) {
+            pageUrls.set(node.filePath, node.url);
+        }
+    }
+
+    let docsResolved = 0;
+    for (const row of markdownData) {
+        const pageUrl = published(row) ? pageUrls.get(row.filePath) : null;
+        if (!pageUrl) {
+            row.url = null;
+            continue;
+        }
+        const heading = row.heading3 || row.heading2;
+        row.url = heading ? `${pageUrl}#${headingAnchor(heading)}` : pageUrl;
+        docsResolved++;
+    }
+
+    // API rows: the api node whose directory holds the spec, else the first one
+    const apiNodes = navigationData.filter((node) => node.type === 'api');
+    const apiBaseFor = (filePath) => {
+        const node = apiNodes.find((apiNode) => apiNode.filePath && filePath.startsWith(`${apiNode.filePath}/`)) || apiNodes[0];
+        return node ? node.url : null;
+    };
+
+    const operationUrls = new Map(); // "METHOD /path" or channel address -> url
+    let apiResolved = 0;
+    for (const row of apiData) {
+        if (row.type !== 'api' && row.type !== 'channel') continue;
+        row.url = null;
+        const apiBase = published(row) ? apiBaseFor(row.filePath) : null;
+        if (!apiBase) continue;
+        let definition = {};
+        try {
+            definition = JSON.parse(row.operationDefinition || '{}');
+        } catch {
+            // Unreadable definition: fall back to tags and operationId
+        }
+        const tags = JSON.parse(row.tags || '[]');
+        const group = definition.sdkGroup ? [].concat(definition.sdkGroup) : tags.slice(0, 1);
+        // Channels are named after the last fixed segment of their address (e.g. stream-input)
+        const channelName = row.type === 'channel' ? row.apiPath.split('/').filter((part) => part && !part.startsWith('{')).pop() : null;
+        const name = definition.sdkMethod || channelName || row.operationId;
+        if (!name) continue;
+        row.url = [apiBase, ...group.map(kebabSlug), kebabSlug(name)].join('/');
+        operationUrls.set(row.type === 'channel' ? row.apiPath : `${row.method} ${row.apiPath}`, row.url);
+        apiResolved++;
+    }
+    for (const row of apiData) {
+        if (row.type !== 'schema') continue;
+        row.url = null;
+        if (!published(row)) continue;
+        const usedBy = JSON.parse(row.usedBy || '[]');
+        // Direct uses first
+        const entries = [...usedBy.filter((entry) => !entry.nested), ...usedBy.filter((entry) => entry.nested)];
+        const keys = entries.map((entry) => (entry.channel ? entry.channel : `${entry.method} ${entry.apiPath}`));
+        row.url = keys.map((key) => operationUrls.get(key)).find(Boolean) || null;
+        if (row.url) apiResolved++;
+    }
+
+    console.log(`Finished resolving published URLs: ${docsResolved} of ${markdownData.length} docs blocks, ${apiResolved} of ${apiData.length} API rows.`);
+}
@@ -4,6 +4,11 @@ import fs from 'fs/promises';
 import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
 import { parseOpenApiFiles } from './parse-openapi.mjs';
 import { parseMarkdownFiles } from './parse-markdown.mjs';
+import { parseDocsStructure } from './parse-docs-structure.mjs';
+import { resolveUrls } from './resolve-urls.mjs';
+import { buildVocabulary } from './build-vocabulary.mjs';
+import { buildIndexMetadata, hashApiSpec, readApiSpecHash, readDocsCommit } from './index-metadata.mjs';
+import { loadSources, tagSourceRows } from './sources.mjs';
 import { writeDataToParquet } from './write-parquet.mjs';
 import { fileURLToPath } from 'url';
 
@@ -15,11 +20,19 @@ async function runETL() {
     console.log('Starting ETL process...');
 
     // Determine paths
-    // Assumes 'elevenlabs-docs' submodule is at the project root alongside 'etl'
-    const submodulePath = process.env.DOCS_SUBMODULE_PATH || path.resolve(__dirname, '../elevenlabs-docs');
+    // Without a sources config, the 'elevenlabs-docs' submodule at the project root alongside 'etl' is the only source
+    let sources;
+    try {
+        sources = await loadSources();
+    } catch (error) {
+        console.error(error.message);
+        process.exit(1);
+    }
     const outputDir = process.env.PARQUET_OUTPUT_DIR || path.resolve(__dirname, '../data'); // Output dir relative to project root
 
-    console.log(`Using submodule path: ${submodulePath}`);
+    for (const source of sources) {
+        console.log(`Using source ${source.name}: ${source.path}`);
+    }
     console.log(`Using output directory: ${outputDir}`);
 
     // Ensure output directory exists
@@ -56,9 +69,16 @@ async function runETL() {
                 content VARCHAR,
                 lineNumber INTEGER,
                 schemaDefinition VARCHAR,
-                usedBy VARCHAR
+                usedBy VARCHAR,
+                operationId VARCHAR,
+                tags VARCHAR,
+                operationDefinition VARCHAR,
+                url VARCHAR,
+                source VARCHAR,
+                repository VARCHAR,
+                sourceUrl VARCHAR
             );`;
-        const apiColumns = ['filePath', 'fileName', 'type', 'apiPath', 'method', 'summary', 'description', 'content', 'lineNumber', 'schemaDefinition', 'usedBy'];
+        const apiColumns = ['filePath', 'fileName', 'type', 'apiPath', 'method', 'summary', 'description', 'content', 'lineNumber', 'schemaDefinition', 'usedBy', 'operationId', 'tags', 'operationDefinition', 'url', 'source', 'repository', 'sourceUrl'];
         const apiParquetPath = path.join(outputDir, 'api_spec.parquet');
 
         // --- DEBUG: Simplified Markdown Content Schema (Commented out) ---
@@ -82,27 +102,142 @@ async function runETL() {
                 heading1 VARCHAR,
                 heading2 VARCHAR,
                 heading3 VARCHAR,
+                title VARCHAR,
+                subtitle VARCHAR,
+                slug VARCHAR,
+                component VARCHAR,
                 contentType VARCHAR,
                 language VARCHAR,
                 content VARCHAR,
                 lineNumber INTEGER,
                 "order" INTEGER,
-                fullContent VARCHAR
+                fullContent VARCHAR,
+                url VARCHAR,
+                source VARCHAR,
+                repository VARCHAR,
+                sourceUrl VARCHAR
             );`; // Use quotes for "order" as it's a reserved keyword
-        const mdColumns = ['filePath', 'fileName', 'heading1', 'heading2', 'heading3', 'contentType', 'language', 'content', 'lineNumber', 'order', 'fullContent'];
+        const mdColumns = ['filePath', 'fileName', 'heading1', 'heading2', 'heading3', 'title', 'subtitle', 'slug', 'component', 'contentType', 'language', 'content', 'lineNumber', 'order', 'fullContent', 'url', 'source', 'repository', 'sourceUrl'];
         const mdParquetPath = path.join(outputDir, 'docs_content.parquet');
         // Removed stray closing comment -> */
 
+        // Docs Navigation Schema (sidebar tree from fern/docs.yml, one row per node)
+        const navTableName = 'docs_navigation';
+        const navCreateTableSql = `
+            CREATE OR REPLACE TABLE ${navTableName} (
+                id INTEGER,
+                parentId INTEGER,
+                tab VARCHAR,
+                type VARCHAR,
+                title VARCHAR,
+                filePath VARCHAR,
+                href VARCHAR,
+                icon VARCHAR,
+                slug VARCHAR,
+                skipSlug BOOLEAN,
+                hidden BOOLEAN,
+                url VARCHAR,
+                source VARCHAR
+            );`;
+        const navColumns = ['id', 'parentId', 'tab', 'type', 'title', 'filePath', 'href', 'icon', 'slug', 'skipSlug', 'hidden', 'url', 'source'];
+        const navParquetPath = path.join(outputDir, 'docs_navigation.parquet');
+
+        // Search Vocabulary Schema (term dictionary for did-you-mean suggestions)
+        const vocabTableName = 'search_vocabulary';
+        const vocabCreateTableSql = `
+            CREATE OR REPLACE TABLE ${vocabTableName} (
+                term VARCHAR,
+                normalized VARCHAR,
+                kind VARCHAR,
+                frequency INTEGER
+            );`;
+        const vocabColumns = ['term', 'normalized', 'kind', 'frequency'];
+        const vocabParquetPath = path.join(outputDir, 'search_vocabulary.parquet');
+
+        // Index Metadata Schema (one row recording what the files were built from)
+        const metaTableName = 'index_metadata';
+        const metaCreateTableSql = `
+            CREATE OR REPLACE TABLE ${metaTableName} (
+                docsCommitSha VARCHAR,
+                docsCommitDate VARCHAR,
+                builtAt VARCHAR,
+                etlVersion VARCHAR,
+                tableRowCounts VARCHAR,
+                failedFileCount INTEGER,
+                failedFiles VARCHAR,
+                sources VARCHAR,
+                apiSpecHash VARCHAR
+            );`;
+        const metaColumns = ['docsCommitSha', 'docsCommitDate', 'builtAt', 'etlVersion', 'tableRowCounts', 'failedFileCount', 'failedFiles', 'sources', 'apiSpecHash'];
+        const metaParquetPath = path.join(outputDir, 'index_metadata.parquet');
+
         // --- Run Parsing and Writing ---
 
+        // Files that fail to parse are skipped by the parsers and recorded here
+        const failedFiles = [];
+
+        // Parse everything first: published URLs depend on the navigation, the page frontmatter and the API specs.
+        // Every source contributes API specs and Markdown; the navigation comes from the first (main docs) source.
+        const apiData = [];
+        const markdownData = [];
+        for (const source of sources) {
+            source.commit = await readDocsCommit(source.path);
+            const sourceFailedFiles = [];
+            const sourceApiData = await parseOpenApiFiles(source.path, false, sourceFailedFiles, source.includes);
+            const sourceMarkdownData = await parseMarkdownFiles(source.path, sourceFailedFiles, source.includes);
+            tagSourceRows(sourceApiData, source, source.commit.sha);
+            tagSourceRows(sourceMarkdownData, source, source.commit.sha);
+            apiData.push(...sourceApiData);
+            markdownData.push(...sourceMarkdownData);
+            failedFiles.push(...sourceFailedFiles.map((file) => `${source.pathPrefix}${file}`));
+        }
+        const navigationData = await parseDocsStructure(sources[0].path, failedFiles);
+        for (const node of navigationData) node.source = sources[0].name;
+        resolveUrls(navigationData, markdownData, apiData);
+
         // Process OpenAPI/API Specs
-        const apiData = await parseOpenApiFiles(submodulePath); // Removed debug flag
+        // Keep the API snapshot of the previous build, so changes between builds can be reported (npm run api-changes).
+        // A build of an unchanged spec keeps the existing snapshot, so the changes stay reported until the spec changes again.
+        const previousApiParquetPath = path.join(outputDir, 'api_spec.previous.parquet');
+        const apiSpecHash = hashApiSpec(apiData);
+        if (apiData.length > 0 && await readApiSpecHash(metaParquetPath, connection) === apiSpecHash) {
+            console.log('API spec unchanged since the last build; keeping the previous API snapshot.');
+        } else if (apiData.length > 0) {
+            try {
+                // Keep the modification time too: it dates the previous build in change reports
+                const { atime, mtime } = await fs.stat(apiParquetPath);
+                await fs.copyFile(apiParquetPath, previousApiParquetPath);
+                await fs.utimes(previousApiParquetPath, atime, mtime);
+                console.log(`Kept previous API snapshot as ${previousApiParquetPath}`);
+            } catch (error) {
+                if (error.code !== 'ENOENT') throw error;
+                console.log('No previous API snapshot to keep (first build).');
+            }
+        }
         await writeDataToParquet(apiData, apiTableName, apiCreateTableSql, apiColumns, apiParquetPath, connection);
 
         // Process Markdown/MDX (Using original schema)
-        const markdownData = await parseMarkdownFiles(submodulePath);
         await writeDataToParquet(markdownData, mdTableName, mdCreateTableSql, mdColumns, mdParquetPath, connection); // Use original variables
 
+        // Process docs navigation (fern/docs.yml)
+        await writeDataToParquet(navigationData, navTableName, navCreateTableSql, navColumns, navParquetPath, connection);
+
+        // Build the term dictionary from the parsed API and Markdown rows
+        const vocabularyData = buildVocabulary(apiData, markdownData);
+        await writeDataToParquet(vocabularyData, vocabTableName, vocabCreateTableSql, vocabColumns, vocabParquetPath, connection);
+
+        // Record provenance last, once the tables it describes are written
+        const metadata = await buildIndexMetadata(sources, {
+            [apiTableName]: apiData.length,
+            [mdTableName]: markdownData.length,
+            [navTableName]: navigationData.length,
+            [vocabTableName]: vocabularyData.length,
+        }, failedFiles, apiSpecHash);
+        await writeDataToParquet(metadata, metaTableName, metaCreateTableSql, metaColumns, metaParquetPath, connection);
+        if (failedFiles.length > 0) {
+            console.warn(`${failedFiles.length} file(s) failed to parse: ${failedFiles.join(', ')}`);
+        }
+
         console.log('ETL process completed successfully.'); // Removed debug message
 
     } catch (error) {
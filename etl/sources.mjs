@@ -0,0 +1,133 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, '..');
+
+// Source names double as search filter values (source:<name>), so they cannot be the sourceType aliases
+const RESERVED_NAMES = ['api', 'spec', 'docs', 'markdown'];
+const NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Converts a glob to a regular expression over '/'-separated relative paths.
+ * Supports ** (any number of directories), * and ? (within one path segment) and {a,b} alternatives.
+ * @param {string} glob - e.g. 'examples/**' or '*.{md,mdx}'
+ * @returns {RegExp}
+ */
+export function globToRegExp(glob) {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // '**/' also matches no directory at all
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else {
+                source += '.*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            source += '(?:';
+            braces++;
+        } else if (char === '}' && braces > 0) {
+            source += ')';
+            braces--;
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+// The elevenlabs-docs submodule, indexed whole; used when there is no sources config
+function defaultSources() {
+    return [{
+        name: 'elevenlabs-docs',
+        path: process.env.DOCS_SUBMODULE_PATH || path.join(PROJECT_ROOT, 'elevenlabs-docs'),
+        repository: 'elevenlabs/elevenlabs-docs',
+        urlTemplate: 'https://github.com/elevenlabs/elevenlabs-docs/blob/main/{path}',
+    }];
+}
+
+/**
+ * Loads the documentation sources to index, from the JSON file named by DOCS_SOURCES_CONFIG
+ * (default: docs-sources.json in the project root). Without that file, the elevenlabs-docs
+ * submodule (DOCS_SUBMODULE_PATH) is the only source.
+ *
+ * Each source has a name, a path (a local directory or git checkout, relative to the config file),
+ * a repository label, a urlTemplate for links to its files ({path} is the file's path in the source,
+ * {commit} the checked-out commit) and optional include/exclude globs over those paths.
+ * The first source is the main docs site: its paths are kept as they are and its fern/docs.yml
+ * defines the navigation. The paths of the other sources are prefixed with their name.
+ * @returns {Promise<object[]>} - Sources with name, path (absolute), repository, urlTemplate, pathPrefix and includes(relativePath).
+ */
+export async function loadSources() {
+    const configPath = path.resolve(process.env.DOCS_SOURCES_CONFIG || path.join(PROJECT_ROOT, 'docs-sources.json'));
+    let configured;
+    try {
+        configured = JSON.parse(await fs.readFile(configPath, 'utf-8')).sources;
+    } catch (error) {
+        // Without an explicit config, a missing default file means the single default source
+        if (error.code === 'ENOENT' && !process.env.DOCS_SOURCES_CONFIG) {
+            configured = defaultSources();
+        } else {
+            throw new Error(`Could not read the sources config ${configPath}: ${error.message}`);
+        }
+    }
+    if (!Array.isArray(configured) || configured.length === 0) {
+        throw new Error(`The sources config ${configPath} must list at least one source under "sources".`);
+    }
+
+    const configDir = path.dirname(configPath);
+    const names = new Set();
+    return configured.map((source, index) => {
+        const { name } = source;
+        if (typeof name !== 'string' || !NAME_PATTERN.test(name) || RESERVED_NAMES.includes(name)) {
+            throw new Error(`Invalid source name ${JSON.stringify(name)}: use lowercase letters, digits, '.', '_' or '-', and not ${RESERVED_NAMES.join(', ')}.`);
+        }
+        if (names.has(name)) throw new Error(`Duplicate source name "${name}".`);
+        names.add(name);
+        if (!source.path || !source.urlTemplate) {
+            throw new Error(`Source "${name}" needs a path and a urlTemplate.`);
+        }
+        const include = (source.include || ['**']).map(globToRegExp);
+        const exclude = (source.exclude || []).map(globToRegExp);
+        return {
+            name,
+            path: path.resolve(configDir, source.path),
+            repository: source.repository || name,
+            urlTemplate: source.urlTemplate,
+            pathPrefix: index === 0 ? '' : `${name}/`,
+            includes: (relativePath) =>
+                include.some((pattern) => pattern.test(relativePath)) && !exclude.some((pattern) => pattern.test(relativePath)),
+        };
+    });
+}
+
+/**
+ * Tags rows parsed from a source: prefixes filePath, and sets source, repository and sourceUrl
+ * (the source's urlTemplate filled in with the file's path in the source and the commit).
+ * @param {object[]} rows - Rows produced by a parser, with filePath relative to the source root.
+ * @param {object} source - A source from loadSources.
+ * @param {string | null} commitSha - The source's checked-out commit (HEAD if unknown).
+ */
+export function tagSourceRows(rows, source, commitSha) {
+    for (const row of rows) {
+        const relativePath = row.filePath;
+        row.filePath = `${source.pathPrefix}${relativePath}`;
+        row.source = source.name;
+        row.repository = source.repository;
+        row.sourceUrl = relativePath
+            ? source.urlTemplate.replaceAll('{path}', relativePath).replaceAll('{commit}', commitSha || 'HEAD')
+            : null;
+    }
+}
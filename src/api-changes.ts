@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { DuckDBInstance } from "@duckdb/node-api";
+import { API_SNAPSHOT_SQL, compareApiSnapshots } from "./handlers/apiChangesHandler.js";
+import { logger } from "./services/Logger.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Reports API changes between two api_spec.parquet snapshots, by default the previous and
+ * current builds under DATA_DIR (data/ in the project root when unset).
+ *
+ *   api-changes [--previous <file>] [--current <file>] [--format markdown|json] [--breaking-only]
+ *
+ * Prints the report to stdout (markdown by default). Exits with 1 on errors.
+ */
+async function main() {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      previous: { type: "string" },
+      current: { type: "string" },
+      format: { type: "string", default: "markdown" },
+      "breaking-only": { type: "boolean", default: false },
+    },
+  });
+  if (values.format !== "markdown" && values.format !== "json") {
+    throw new Error(`Invalid format "${values.format}". Expected "markdown" or "json".`);
+  }
+
+  // Same default as DuckDBService, from dist/src
+  const dataDir = process.env.DATA_DIR ? path.resolve(process.env.DATA_DIR) : path.resolve(__dirname, "../../data");
+  const previousPath = path.resolve(values.previous ?? path.join(dataDir, "api_spec.previous.parquet"));
+  const currentPath = path.resolve(values.current ?? path.join(dataDir, "api_spec.parquet"));
+
+  const instance = await DuckDBInstance.create(":memory:");
+  const connection = await instance.connect();
+  try {
+    const readRows = async (filePath: string) => {
+      const prepared = await connection.prepare(API_SNAPSHOT_SQL);
+      prepared.bind([filePath]);
+      return (await prepared.runAndReadAll()).getRowObjects() as Record<string, any>[];
+    };
+    const result = await compareApiSnapshots(previousPath, currentPath, readRows, {
+      format: values.format,
+      breakingOnly: values["breaking-only"],
+    });
+    if (values.format === "markdown") {
+      process.stdout.write(`${result.markdown}\n`);
+    } else {
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    }
+  } finally {
+    connection.disconnectSync();
+  }
+}
+
+main().catch((error) => {
+  logger.error(`api-changes failed: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
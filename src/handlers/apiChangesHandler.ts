@@ -0,0 +1,328 @@
+import fs from "node:fs/promises";
+import { DuckDBService } from "../services/DuckDBService.js";
+import {
+  ApiChangesArgs,
+  ApiChangesResult,
+  ApiSnapshotInfo,
+  EndpointChange,
+  SchemaChange,
+  SchemaField,
+  SchemaFieldChange,
+} from "../types/interfaces.js";
+import { flattenSchema, inlineSchemaRefs } from "./describeSchemaHandler.js";
+
+// Rows compared between two api_spec.parquet snapshots
+export const API_SNAPSHOT_SQL = `
+  SELECT type, apiPath, method, summary, operationId, schemaDefinition, usedBy
+  FROM read_parquet(?)
+  WHERE type IN ('api', 'schema');
+`;
+
+// Inline objects are compared this deep; nested named schemas are compared as their own rows
+const FIELD_DEPTH = 10;
+
+async function snapshotInfo(filePath: string): Promise<ApiSnapshotInfo> {
+  try {
+    const stat = await fs.stat(filePath);
+    return { path: filePath, modifiedAt: stat.mtime.toISOString() };
+  } catch {
+    return { path: filePath, modifiedAt: null };
+  }
+}
+
+/**
+ * Whether a schema is sent by clients (request body, parameter, WebSocket message they send) and/or
+ * read by them (response, WebSocket message they receive), from the usedBy column. Unused schemas
+ * count as both, so changes to them are judged conservatively.
+ */
+function schemaDirection(usedBy: string | null): { input: boolean; output: boolean } {
+  let entries: { role: string; direction?: string }[] = [];
+  try {
+    const parsed = JSON.parse(usedBy ?? "[]");
+    entries = Array.isArray(parsed) ? parsed.filter((entry) => entry?.role) : [];
+  } catch {
+    // Unreadable usedBy: fall through to "both"
+  }
+  if (entries.length === 0) return { input: true, output: true };
+  return {
+    input: entries.some(({ role, direction }) =>
+      role === "requestBody" || role === "parameter" || (role === "message" && direction === "send")),
+    output: entries.some(({ role, direction }) =>
+      role === "response" || (role === "message" && direction === "receive")),
+  };
+}
+
+// Parsed schema definitions of a snapshot by name, for inlining the schema references of its rows
+function definitionLookup(schemaRows: Map<string, Record<string, any>>): (name: string) => any {
+  const parsed = new Map<string, any>();
+  return (name) => {
+    if (!parsed.has(name)) {
+      try {
+        parsed.set(name, JSON.parse(schemaRows.get(name)?.schemaDefinition ?? "null"));
+      } catch {
+        parsed.set(name, null);
+      }
+    }
+    return parsed.get(name);
+  };
+}
+
+function parseFields(row: Record<string, any>, lookup: (name: string) => any): SchemaField[] {
+  try {
+    const definition = inlineSchemaRefs(JSON.parse(row.schemaDefinition ?? "null"), lookup, row.summary);
+    return flattenSchema(definition, FIELD_DEPTH, true);
+  } catch {
+    return [];
+  }
+}
+
+function fieldKey(field: SchemaField): string {
+  return field.variant ? `${field.path} (${field.variant})` : field.path;
+}
+
+function formatValues(values: any[]): string {
+  return values.map((v) => JSON.stringify(v)).join(", ");
+}
+
+/**
+ * Field-level changes of one schema. What breaks depends on who holds the data:
+ * - added required field, optional field made required, enum value removed: break clients that send it
+ * - removed field, required field made optional, enum value added: break clients that read it
+ * - changed type: breaks both
+ */
+function diffFields(
+  before: SchemaField[],
+  after: SchemaField[],
+  direction: { input: boolean; output: boolean }
+): SchemaFieldChange[] {
+  const changes: SchemaFieldChange[] = [];
+  const previous = new Map(before.map((f) => [fieldKey(f), f]));
+  const current = new Map(after.map((f) => [fieldKey(f), f]));
+
+  for (const [key, field] of previous) {
+    if (!current.has(key)) {
+      changes.push({ kind: "fieldRemoved", path: key, detail: `removed (was ${field.type})`, breaking: direction.output });
+    }
+  }
+  for (const [key, field] of current) {
+    const old = previous.get(key);
+    if (!old) {
+      changes.push({
+        kind: "fieldAdded",
+        path: key,
+        detail: `added (${field.type}${field.required ? ", required" : ""})`,
+        breaking: field.required && direction.input,
+      });
+      continue;
+    }
+    if (old.type !== field.type) {
+      changes.push({ kind: "typeChanged", path: key, detail: `type changed from ${old.type} to ${field.type}`, breaking: true });
+    }
+    if (!old.required && field.required) {
+      changes.push({ kind: "becameRequired", path: key, detail: "became required", breaking: direction.input });
+    } else if (old.required && !field.required) {
+      changes.push({ kind: "becameOptional", path: key, detail: "became optional", breaking: direction.output });
+    }
+    if (old.enum || field.enum) {
+      const oldValues = old.enum ?? [];
+      const newValues = field.enum ?? [];
+      const added = newValues.filter((v) => !oldValues.some((o) => JSON.stringify(o) === JSON.stringify(v)));
+      const removed = oldValues.filter((o) => !newValues.some((v) => JSON.stringify(o) === JSON.stringify(v)));
+      // An enum that appears or disappears entirely is a restriction change, not a list of values
+      if (old.enum && field.enum && added.length > 0) {
+        changes.push({ kind: "enumValuesAdded", path: key, detail: `enum values added: ${formatValues(added)}`, breaking: direction.output });
+      }
+      if (old.enum && field.enum && removed.length > 0) {
+        changes.push({ kind: "enumValuesRemoved", path: key, detail: `enum values removed: ${formatValues(removed)}`, breaking: direction.input });
+      }
+      if (!old.enum && field.enum) {
+        changes.push({ kind: "enumValuesRemoved", path: key, detail: `restricted to ${formatValues(field.enum)}`, breaking: direction.input });
+      }
+      if (old.enum && !field.enum) {
+        changes.push({ kind: "enumValuesAdded", path: key, detail: "no longer restricted to an enum", breaking: direction.output });
+      }
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function endpointKey(row: Record<string, any>): string {
+  return `${row.method} ${row.apiPath}`;
+}
+
+/**
+ * Compares two api_spec snapshots: endpoints added and removed, schemas added and removed,
+ * and field-level changes of schemas present in both.
+ */
+export function diffApiSnapshots(
+  previousRows: Record<string, any>[],
+  currentRows: Record<string, any>[],
+  previous: ApiSnapshotInfo,
+  current: ApiSnapshotInfo
+): ApiChangesResult {
+  const endpoints = (rows: Record<string, any>[]) =>
+    new Map(rows.filter((r) => r.type === "api" && r.apiPath && r.method).map((r) => [endpointKey(r), r]));
+  const schemas = (rows: Record<string, any>[]) => {
+    const map = new Map<string, Record<string, any>>();
+    for (const row of rows) {
+      if (row.type === "schema" && row.summary && !map.has(row.summary)) map.set(row.summary, row);
+    }
+    return map;
+  };
+  const toEndpointChange = (row: Record<string, any>, breaking: boolean): EndpointChange => ({
+    method: row.method,
+    apiPath: row.apiPath,
+    operationId: row.operationId ?? null,
+    breaking,
+  });
+  const byPath = (a: EndpointChange, b: EndpointChange) => a.apiPath.localeCompare(b.apiPath) || a.method.localeCompare(b.method);
+
+  const previousEndpoints = endpoints(previousRows);
+  const currentEndpoints = endpoints(currentRows);
+  const addedEndpoints = [...currentEndpoints].filter(([key]) => !previousEndpoints.has(key)).map(([, r]) => toEndpointChange(r, false));
+  const removedEndpoints = [...previousEndpoints].filter(([key]) => !currentEndpoints.has(key)).map(([, r]) => toEndpointChange(r, true));
+
+  const previousSchemas = schemas(previousRows);
+  const currentSchemas = schemas(currentRows);
+  const previousLookup = definitionLookup(previousSchemas);
+  const currentLookup = definitionLookup(currentSchemas);
+  const addedSchemas: SchemaChange[] = [];
+  const removedSchemas: SchemaChange[] = [];
+  const changedSchemas: SchemaChange[] = [];
+  for (const [name] of currentSchemas) {
+    if (!previousSchemas.has(name)) addedSchemas.push({ name, breaking: false, changes: [] });
+  }
+  for (const [name, before] of previousSchemas) {
+    const after = currentSchemas.get(name);
+    if (!after) {
+      removedSchemas.push({ name, breaking: true, changes: [] });
+      continue;
+    }
+    const directionBefore = schemaDirection(before.usedBy);
+    const directionAfter = schemaDirection(after.usedBy);
+    const direction = {
+      input: directionBefore.input || directionAfter.input,
+      output: directionBefore.output || directionAfter.output,
+    };
+    const changes = diffFields(parseFields(before, previousLookup), parseFields(after, currentLookup), direction);
+    if (changes.length > 0) {
+      changedSchemas.push({ name, breaking: changes.some((c) => c.breaking), changes });
+    }
+  }
+  const byName = (a: SchemaChange, b: SchemaChange) => a.name.localeCompare(b.name);
+
+  const entries = [
+    ...addedEndpoints,
+    ...removedEndpoints,
+    ...addedSchemas,
+    ...removedSchemas,
+    ...changedSchemas.flatMap((s) => s.changes),
+  ];
+  return {
+    previous,
+    current,
+    summary: {
+      breaking: entries.filter((e) => e.breaking).length,
+      nonBreaking: entries.filter((e) => !e.breaking).length,
+    },
+    endpoints: { added: addedEndpoints.sort(byPath), removed: removedEndpoints.sort(byPath) },
+    schemas: { added: addedSchemas.sort(byName), removed: removedSchemas.sort(byName), changed: changedSchemas.sort(byName) },
+  };
+}
+
+// Drops everything that is not breaking (the summary keeps the full counts)
+function onlyBreaking(result: ApiChangesResult): ApiChangesResult {
+  return {
+    ...result,
+    endpoints: { added: result.endpoints.added.filter((e) => e.breaking), removed: result.endpoints.removed.filter((e) => e.breaking) },
+    schemas: {
+      added: result.schemas.added.filter((s) => s.breaking),
+      removed: result.schemas.removed.filter((s) => s.breaking),
+      changed: result.schemas.changed
+        .map((s) => ({ ...s, changes: s.changes.filter((c) => c.breaking) }))
+        .filter((s) => s.changes.length > 0),
+    },
+  };
+}
+
+const BREAKING_TAG = " **(breaking)**";
+
+/**
+ * Renders a change report as markdown, breaking entries tagged.
+ */
+export function renderApiChangesMarkdown(result: ApiChangesResult): string {
+  const lines = [
+    "# API changes",
+    "",
+    `Previous: \`${result.previous.path}\`${result.previous.modifiedAt ? ` (${result.previous.modifiedAt})` : ""}`,
+    `Current: \`${result.current.path}\`${result.current.modifiedAt ? ` (${result.current.modifiedAt})` : ""}`,
+    "",
+    `${result.summary.breaking} breaking, ${result.summary.nonBreaking} non-breaking changes.`,
+  ];
+  const endpointLine = (e: EndpointChange) =>
+    `- \`${e.method} ${e.apiPath}\`${e.operationId ? ` (${e.operationId})` : ""}${e.breaking ? BREAKING_TAG : ""}`;
+  const schemaLine = (s: SchemaChange) => `- \`${s.name}\`${s.breaking ? BREAKING_TAG : ""}`;
+  const list = (title: string, items: string[]) => (items.length > 0 ? ["", `### ${title}`, "", ...items] : []);
+
+  const { endpoints, schemas } = result;
+  if (endpoints.added.length + endpoints.removed.length > 0) {
+    lines.push("", "## Endpoints");
+    lines.push(...list("Added", endpoints.added.map(endpointLine)));
+    lines.push(...list("Removed", endpoints.removed.map(endpointLine)));
+  }
+  if (schemas.added.length + schemas.removed.length + schemas.changed.length > 0) {
+    lines.push("", "## Schemas");
+    lines.push(...list("Added", schemas.added.map(schemaLine)));
+    lines.push(...list("Removed", schemas.removed.map(schemaLine)));
+    if (schemas.changed.length > 0) {
+      lines.push("", "### Changed");
+      for (const schema of schemas.changed) {
+        lines.push("", `#### ${schema.name}${schema.breaking ? BREAKING_TAG : ""}`, "");
+        lines.push(...schema.changes.map((c) => `- \`${c.path}\`: ${c.detail}${c.breaking ? BREAKING_TAG : ""}`));
+      }
+    }
+  }
+  if (result.summary.breaking + result.summary.nonBreaking === 0) {
+    lines.push("", "No changes.");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Builds the change report for two snapshot files, as used by the tool and the api-changes command.
+ */
+export async function compareApiSnapshots(
+  previousPath: string,
+  currentPath: string,
+  readRows: (filePath: string) => Promise<Record<string, any>[]>,
+  args: ApiChangesArgs
+): Promise<ApiChangesResult> {
+  const [previous, current] = await Promise.all([snapshotInfo(previousPath), snapshotInfo(currentPath)]);
+  if (!previous.modifiedAt) {
+    throw new Error(
+      `No previous API snapshot at ${previousPath}. The ETL keeps the previous api_spec.parquet there when it rebuilds the data; re-run it after updating the docs submodule.`
+    );
+  }
+  if (!current.modifiedAt) {
+    throw new Error(`API snapshot not found: ${currentPath}`);
+  }
+  const previousRows = await readRows(previousPath);
+  const currentRows = await readRows(currentPath);
+
+  let result = diffApiSnapshots(previousRows, currentRows, previous, current);
+  if (args.breakingOnly) result = onlyBreaking(result);
+  if (args.format === "markdown") result.markdown = renderApiChangesMarkdown(result);
+  return result;
+}
+
+export async function handleApiChanges(args: ApiChangesArgs, service: DuckDBService): Promise<ApiChangesResult> {
+  if (args.format && args.format !== "json" && args.format !== "markdown") {
+    throw new Error(`Invalid format "${args.format}". Expected "json" or "markdown".`);
+  }
+  return compareApiSnapshots(
+    service.getPreviousApiSpecPath(),
+    service.getApiSpecPath(),
+    (filePath) => service.executeQuery(API_SNAPSHOT_SQL, [filePath]),
+    args
+  );
+}
@@ -0,0 +1,380 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import { DescribeSchemaArgs, DescribeSchemaResult, SchemaField } from "../types/interfaces.js";
+import { schemaResourceUri } from "./resourcesHandler.js";
+
+const DEFAULT_DEPTH = 3;
+const MAX_DEPTH = 10;
+
+/**
+ * Looks up a named schema in api_spec (exact name first, then case-insensitive).
+ * Throws with the closest schema names when nothing matches.
+ */
+export async function findSchemaRow(schemaName: string, service: DuckDBService): Promise<Record<string, any>> {
+  const sql = `
+    SELECT filePath, summary, description, schemaDefinition, usedBy, url, repository, sourceUrl
+    FROM api_spec
+    WHERE type = 'schema' AND (summary = ? OR lower(summary) = lower(?))
+    ORDER BY summary = ? DESC, rowId
+    LIMIT 1;
+  `;
+  const row = await service.executeQueryFirstRow(sql, [schemaName, schemaName, schemaName]);
+  if (row?.schemaDefinition) return row;
+
+  const closestSql = `
+    SELECT DISTINCT summary, levenshtein(lower(summary), lower(?)) AS distance
+    FROM api_spec
+    WHERE type = 'schema' AND summary IS NOT NULL
+    ORDER BY distance, summary
+    LIMIT 5;
+  `;
+  const closest = await service.executeQuery(closestSql, [schemaName]);
+  const suggestions = closest.map((r) => r.summary as string);
+  throw new Error(
+    `Schema not found: "${schemaName}".` +
+      (suggestions.length > 0 ? ` Closest candidates: ${suggestions.join(", ")}` : "")
+  );
+}
+
+// Recursion markers written by the ETL: { "$recursiveRef": "<title>" }, or "[Circular]" in older builds
+export function recursiveRef(schema: any): string | undefined {
+  if (schema === "[Circular]") return "[Circular]";
+  if (schema && typeof schema === "object" && typeof schema.$recursiveRef === "string") return schema.$recursiveRef;
+  return undefined;
+}
+
+// Nested component schemas written by the ETL as { "$schemaRef": "<name>" }; each has a schema row of its own
+export function schemaRef(schema: any): string | undefined {
+  if (schema && typeof schema === "object" && typeof schema.$schemaRef === "string") return schema.$schemaRef;
+  return undefined;
+}
+
+/**
+ * Replaces schema references with the definitions lookup returns for them, so a definition reads as the
+ * fully inlined schema. A reference to a schema it is nested in becomes { "$recursiveRef": "<name>" }, as the
+ * ETL marks recursion; references lookup cannot resolve are left in place. An expansion that does not
+ * depend on where it is nested is built once and shared, so the result stays as small as the schemas it uses.
+ */
+export function inlineSchemaRefs(definition: any, lookup: (name: string) => any, rootName?: string): any {
+  const shared = new Map<string, any>();
+  // Returns the inlined value and the names it cut as recursive
+  const inline = (value: any, ancestors: string[]): { value: any; cut: Set<string> } => {
+    if (!value || typeof value !== "object") return { value, cut: new Set() };
+    const name = schemaRef(value);
+    if (name !== undefined) {
+      if (ancestors.includes(name)) return { value: { $recursiveRef: name }, cut: new Set([name]) };
+      if (shared.has(name)) return { value: shared.get(name), cut: new Set() };
+      const target = lookup(name);
+      if (!target || typeof target !== "object") return { value, cut: new Set() };
+      const result = inline(target, [...ancestors, name]);
+      result.cut.delete(name);
+      if (result.cut.size === 0) shared.set(name, result.value);
+      return result;
+    }
+    const cut = new Set<string>();
+    const visit = (child: any) => {
+      const result = inline(child, ancestors);
+      result.cut.forEach((n) => cut.add(n));
+      return result.value;
+    };
+    const copy = Array.isArray(value)
+      ? value.map(visit)
+      : Object.fromEntries(Object.entries(value).map(([key, child]) => [key, visit(child)]));
+    return { value: copy, cut };
+  };
+  return inline(definition, rootName ? [rootName] : []).value;
+}
+
+/**
+ * Loads the schema rows a definition refers to, directly or through other schemas, and inlines them
+ * (see inlineSchemaRefs). Rows from filePath (the spec file of the definition) are preferred.
+ */
+export async function resolveSchemaRefs(
+  definition: any,
+  service: DuckDBService,
+  filePath?: string,
+  rootName?: string
+): Promise<any> {
+  const definitions = new Map<string, any>();
+  const collect = (value: any, names: Set<string>) => {
+    if (!value || typeof value !== "object") return;
+    const name = schemaRef(value);
+    if (name !== undefined) {
+      if (!definitions.has(name)) names.add(name);
+      return;
+    }
+    for (const child of Array.isArray(value) ? value : Object.values(value)) collect(child, names);
+  };
+
+  let pending = new Set<string>();
+  collect(definition, pending);
+  while (pending.size > 0) {
+    const names = [...pending];
+    const rows = await service.executeQuery(
+      `SELECT summary, schemaDefinition
+       FROM api_spec
+       WHERE type = 'schema' AND summary IN (${names.map(() => "?").join(", ")})
+       ORDER BY summary, filePath = ? DESC, rowId;`,
+      [...names, filePath ?? null]
+    );
+    for (const name of names) definitions.set(name, null);
+    for (const row of rows) {
+      if (definitions.get(row.summary) !== null) continue;
+      try {
+        definitions.set(row.summary, JSON.parse(row.schemaDefinition));
+      } catch {
+        // Unreadable definitions stay references
+      }
+    }
+    pending = new Set();
+    for (const name of names) collect(definitions.get(name), pending);
+  }
+  return inlineSchemaRefs(definition, (name) => definitions.get(name), rootName);
+}
+
+export function isNullSchema(schema: any): boolean {
+  return !!schema && typeof schema === "object" &&
+    (schema.type === "null" || (Array.isArray(schema.enum) && schema.enum.length === 1 && schema.enum[0] === null));
+}
+
+/**
+ * Strips the ways a schema can say "or null" (nullable, type arrays, null anyOf/oneOf variants)
+ * and merges allOf parts, so the caller sees the underlying schema and a nullable flag.
+ */
+function normalize(input: any): { schema: any; nullable: boolean } {
+  if (!input || typeof input !== "object" || recursiveRef(input) || schemaRef(input)) {
+    return { schema: input, nullable: false };
+  }
+  let schema = { ...input };
+  let nullable = schema.nullable === true;
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((t: string) => t !== "null");
+    nullable = nullable || types.length < schema.type.length;
+    schema.type = types.length === 1 ? types[0] : types;
+  }
+
+  for (const key of ["anyOf", "oneOf"] as const) {
+    if (!Array.isArray(schema[key])) continue;
+    const variants = schema[key].filter((v: any) => !isNullSchema(v));
+    if (variants.length === schema[key].length) continue;
+    nullable = true;
+    if (variants.length === 1) {
+      // A single non-null variant is just that schema; the wrapper's own keywords (description, default) win
+      const { [key]: _removed, ...rest } = schema;
+      const inner = normalize(variants[0]);
+      if (recursiveRef(inner.schema)) return { schema: inner.schema, nullable: true };
+      schema = { ...inner.schema, ...rest };
+    } else {
+      schema[key] = variants;
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part: any) => normalize(part).schema).filter((p: any) => p && typeof p === "object");
+    const { allOf: _allOf, ...rest } = schema;
+    const properties = Object.assign({}, ...parts.map((p: any) => p.properties ?? {}), rest.properties ?? {});
+    const required = [...parts.flatMap((p: any) => p.required ?? []), ...(rest.required ?? [])];
+    schema = { ...Object.assign({}, ...parts), ...rest, properties, required };
+    if (!schema.type && Object.keys(properties).length > 0) schema.type = "object";
+    if (Object.keys(properties).length === 0) delete schema.properties;
+  }
+
+  return { schema, nullable };
+}
+
+function typeLabel(input: any): string {
+  const ref = recursiveRef(input) ?? schemaRef(input);
+  if (ref) return ref;
+  const { schema } = normalize(input);
+  if (!schema || typeof schema !== "object") return "any";
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(variants)) return [...new Set(variants.map(typeLabel))].join(" | ");
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+
+  const type = Array.isArray(schema.type) ? schema.type.join(" | ") : schema.type;
+  if (type === "array") return `array<${schema.items ? typeLabel(schema.items) : "any"}>`;
+  if (type === "object" || (!type && schema.properties)) {
+    if (!schema.properties && schema.additionalProperties && typeof schema.additionalProperties === "object") {
+      return `map<string, ${typeLabel(schema.additionalProperties)}>`;
+    }
+    return schema.title ?? "object";
+  }
+  return type ?? "any";
+}
+
+// True when a schema has nested fields to list (object properties, directly or via arrays, maps or variants)
+function isExpandable(input: any): boolean {
+  const { schema } = normalize(input);
+  if (!schema || typeof schema !== "object" || recursiveRef(schema)) return false;
+  if (schema.properties) return true;
+  if (schema.type === "array") return isExpandable(schema.items);
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(variants)) return variants.some(isExpandable);
+  return !!schema.additionalProperties && typeof schema.additionalProperties === "object" && isExpandable(schema.additionalProperties);
+}
+
+interface WalkState {
+  maxDepth: number;
+  fields: SchemaField[];
+  // Leave nested named schemas (those with a title) unexpanded
+  stopAtNamed?: boolean;
+}
+
+// Adds one row per property of an object schema, then descends into each property
+function addProperties(schema: any, prefix: string, depth: number, variant: string | undefined, state: WalkState) {
+  const required = new Set<string>(schema.required ?? []);
+  for (const [name, property] of Object.entries<any>(schema.properties ?? {})) {
+    addField(prefix ? `${prefix}.${name}` : name, property, required.has(name), depth, variant, state);
+  }
+}
+
+function addField(path: string, property: any, required: boolean, depth: number, variant: string | undefined, state: WalkState) {
+  const { schema, nullable } = normalize(property);
+  const field: SchemaField = { path, type: typeLabel(property), required, nullable };
+  if (variant) field.variant = variant;
+
+  const ref = recursiveRef(schema);
+  if (ref) {
+    field.recursiveRef = ref;
+    state.fields.push(field);
+    return;
+  }
+  if (schema && typeof schema === "object") {
+    if (Array.isArray(schema.enum)) field.enum = schema.enum.filter((v: any) => v !== null);
+    // Variants that are each a fixed value (enum/const) read best as one combined enum
+    const variants: any[] | undefined = schema.oneOf ?? schema.anyOf;
+    if (!field.enum && Array.isArray(variants)) {
+      const values = variants.map((v) => normalize(v).schema);
+      if (values.every((v) => v && (Array.isArray(v.enum) || v.const !== undefined))) {
+        field.enum = values.flatMap((v) => (Array.isArray(v.enum) ? v.enum : [v.const]));
+      }
+    }
+    if (schema.default !== undefined) field.default = schema.default;
+    if (schema.format) field.format = schema.format;
+    if (schema.description) field.description = schema.description;
+  }
+  state.fields.push(field);
+  addChildren(path, schema, depth, variant, state, field);
+}
+
+/**
+ * Descends into what a field contains: array items (path[]), object properties, map values (path.{key})
+ * and oneOf/anyOf variants, each labeled so rows from different variants can be told apart.
+ */
+function addChildren(path: string, input: any, depth: number, variant: string | undefined, state: WalkState, field?: SchemaField) {
+  let schema = input;
+  let childPath = path;
+  while (schema && typeof schema === "object" && schema.type === "array" && schema.items) {
+    const ref = recursiveRef(schema.items);
+    if (ref) {
+      if (field) field.recursiveRef = ref;
+      return;
+    }
+    schema = normalize(schema.items).schema;
+    childPath += "[]";
+  }
+  if (!schema || typeof schema !== "object") return;
+
+  const variants: any[] | undefined = schema.oneOf ?? schema.anyOf;
+  if (!isExpandable(schema)) return;
+  if (state.stopAtNamed && depth > 0 && schema.title) return;
+  if (depth >= state.maxDepth) {
+    if (field) field.truncated = true;
+    return;
+  }
+
+  if (schema.properties) {
+    addProperties(schema, childPath, depth + 1, variant, state);
+  }
+  if (Array.isArray(variants)) {
+    const key = schema.oneOf ? "oneOf" : "anyOf";
+    variants.forEach((v, i) => {
+      const ref = recursiveRef(v);
+      const label = `${childPath || "(root)"}: ${key}[${i}] ${ref ?? typeLabel(v)}`;
+      if (ref) return;
+      addChildren(childPath, normalize(v).schema, depth, variant ? `${variant} > ${label}` : label, state);
+    });
+  }
+  if (!schema.properties && schema.additionalProperties && typeof schema.additionalProperties === "object") {
+    addChildren(`${childPath}.{key}`, normalize(schema.additionalProperties).schema, depth + 1, variant, state);
+  }
+}
+
+/**
+ * Flattens a schema definition into one field per property path, nested objects expanded up to maxDepth.
+ * With stopAtNamed, nested named schemas are listed but not expanded (they have rows of their own).
+ */
+export function flattenSchema(definition: any, maxDepth: number, stopAtNamed = false): SchemaField[] {
+  const state: WalkState = { maxDepth, fields: [], stopAtNamed };
+  addChildren("", normalize(definition).schema, 0, undefined, state);
+  return state.fields;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+// Markdown table of the flattened fields
+function renderTable(fields: SchemaField[]): string {
+  const showVariant = fields.some((f) => f.variant);
+  const header = ["Field", "Type", "Required", "Nullable", "Enum", "Default", "Description", ...(showVariant ? ["Variant"] : [])];
+  const rows = fields.map((f) => {
+    let type = f.type;
+    if (f.format) type += ` (${f.format})`;
+    if (f.recursiveRef) type += " (recursive)";
+    if (f.truncated) type += " (not expanded, increase depth)";
+    const cells = [
+      `\`${f.path}\``,
+      type,
+      f.required ? "yes" : "no",
+      f.nullable ? "yes" : "no",
+      f.enum ? f.enum.map(String).join(", ") : "",
+      f.default !== undefined ? JSON.stringify(f.default) : "",
+      f.description ?? "",
+      ...(showVariant ? [f.variant ?? ""] : []),
+    ];
+    return `| ${cells.map((c) => escapeCell(c)).join(" | ")} |`;
+  });
+  return [`| ${header.join(" | ")} |`, `| ${header.map(() => "---").join(" | ")} |`, ...rows].join("\n");
+}
+
+export async function handleDescribeSchema(
+  args: DescribeSchemaArgs,
+  service: DuckDBService
+): Promise<DescribeSchemaResult> {
+  if (!args.schemaName) {
+    throw new Error("Missing required argument: schemaName");
+  }
+  const maxDepth = Math.min(Math.max(Math.floor(args.depth ?? DEFAULT_DEPTH), 1), MAX_DEPTH);
+
+  const row = await findSchemaRow(args.schemaName, service);
+  let definition: any;
+  try {
+    definition = JSON.parse(row.schemaDefinition);
+  } catch {
+    throw new Error(`Schema ${row.summary} has an unreadable definition in the index`);
+  }
+  definition = await resolveSchemaRefs(definition, service, row.filePath, row.summary);
+
+  const { schema } = normalize(definition);
+  const fields = flattenSchema(definition, maxDepth);
+
+  const result: DescribeSchemaResult = {
+    name: row.summary,
+    description: row.description ?? schema?.description ?? null,
+    type: typeLabel(definition),
+    fields,
+    table: renderTable(fields),
+    path: row.filePath,
+    repository: row.repository,
+    url: row.url ?? row.sourceUrl,
+    sourceUrl: row.sourceUrl,
+    resourceUri: schemaResourceUri(row.summary),
+  };
+  const variants = schema?.oneOf ?? schema?.anyOf;
+  if (Array.isArray(variants)) {
+    result.variants = variants.map((v: any) => typeLabel(v));
+  }
+  return result;
+}
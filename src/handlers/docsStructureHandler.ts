@@ -0,0 +1,132 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import {
+  DocsNavigationNode,
+  DocsStructureArgs,
+  DocsStructureResult,
+} from "../types/interfaces.js";
+
+// Drops empty optional fields so the tree stays compact
+function compactNode(row: Record<string, any>): DocsNavigationNode {
+  const node: DocsNavigationNode = { type: row.type, title: row.title };
+  if (row.type === "tab") node.tab = row.tab;
+  if (row.slug) node.slug = row.slug;
+  if (row.skipSlug) node.skipSlug = true;
+  if (row.hidden) node.hidden = true;
+  if (row.icon) node.icon = row.icon;
+  if (row.href) node.href = row.href;
+  if (row.url) node.url = row.url;
+  if (row.filePath) node.filePath = row.filePath;
+  // API nodes point at the API definition directory, which has no indexed blocks of its own
+  if (row.filePath && row.type !== "api") {
+    node.indexed = row.blockCount > 0;
+    node.blockCount = row.blockCount;
+  }
+  return node;
+}
+
+export async function handleDocsStructure(
+  args: DocsStructureArgs,
+  service: DuckDBService
+): Promise<DocsStructureResult> {
+  // Every navigation node, with the number of indexed blocks for its page (if any)
+  const sql = `
+    SELECT
+      n.id,
+      n.parentId,
+      n.tab,
+      n.type,
+      n.title,
+      n.filePath,
+      n.href,
+      n.icon,
+      n.slug,
+      n.skipSlug,
+      n.hidden,
+      n.url,
+      count(c.rowId)::INTEGER AS blockCount
+    FROM docs_navigation n
+    LEFT JOIN docs_content c ON c.filePath = n.filePath
+    GROUP BY ALL
+    ORDER BY n.id;
+  `;
+  const rows = await service.executeQuery(sql);
+  if (rows.length === 0) {
+    throw new Error("No docs navigation indexed. Re-run the ETL (etl/run-etl.mjs) to generate docs_navigation.parquet.");
+  }
+
+  // Rebuild the tree from id/parentId (rows are in document order)
+  const nodesById = new Map<number, DocsNavigationNode>();
+  const rowsById = new Map<number, Record<string, any>>();
+  let root: DocsNavigationNode | undefined;
+  for (const row of rows) {
+    if (row.hidden && !args.includeHidden) continue;
+    const node = compactNode(row);
+    nodesById.set(row.id, node);
+    rowsById.set(row.id, row);
+    if (row.parentId === null) {
+      root = node;
+      continue;
+    }
+    const parent = nodesById.get(row.parentId);
+    if (parent) {
+      (parent.children ??= []).push(node);
+    }
+  }
+  if (!root) {
+    throw new Error("Docs navigation has no root node. Re-run the ETL (etl/run-etl.mjs).");
+  }
+
+  const tabs = (root.children ?? [])
+    .filter((node) => node.type === "tab")
+    .map((node) => ({ tab: node.tab!, title: node.title }));
+
+  let tree: DocsNavigationNode[] = root.children ?? [];
+
+  if (args.tab) {
+    const wanted = args.tab.toLowerCase();
+    const tabNode = tree.find(
+      (node) => node.type === "tab" && (node.tab?.toLowerCase() === wanted || node.title.toLowerCase() === wanted)
+    );
+    if (!tabNode) {
+      throw new Error(`Tab "${args.tab}" not found. Available tabs: ${tabs.map((t) => t.tab).join(", ")}`);
+    }
+    tree = [tabNode];
+  }
+
+  if (args.section) {
+    const wanted = args.section.toLowerCase();
+    const matches: DocsNavigationNode[] = [];
+    const collect = (nodes: DocsNavigationNode[]) => {
+      for (const node of nodes) {
+        if (node.type === "section" && node.title.toLowerCase() === wanted) {
+          matches.push(node);
+        } else if (node.children) {
+          collect(node.children);
+        }
+      }
+    };
+    collect(tree);
+    if (matches.length === 0) {
+      const sections = [...rowsById.values()].filter((row) => row.type === "section").map((row) => row.title);
+      throw new Error(
+        `Section "${args.section}" not found${args.tab ? ` in tab ${args.tab}` : ""}. Available sections: ${[...new Set(sections)].join(", ")}`
+      );
+    }
+    tree = matches;
+  }
+
+  if (args.maxDepth !== undefined) {
+    const prune = (nodes: DocsNavigationNode[], depth: number): DocsNavigationNode[] =>
+      nodes.map((node) => {
+        if (!node.children) return node;
+        if (depth >= args.maxDepth!) {
+          const { children, ...rest } = node;
+          return rest;
+        }
+        return { ...node, children: prune(node.children, depth + 1) };
+      });
+    tree = prune(tree, 1);
+  }
+
+  return { title: root.title, tabs, tree };
+}
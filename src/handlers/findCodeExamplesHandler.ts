@@ -0,0 +1,147 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import { CodeExample, FindCodeExamplesArgs, FindCodeExamplesResult } from "../types/interfaces.js";
+import { docResourceUri } from "./resourcesHandler.js";
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+// Fence languages used in the docs for each language name a caller may ask for
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  python: ["python", "py"],
+  typescript: ["typescript", "ts", "tsx"],
+  javascript: ["javascript", "js", "jsx", "node"],
+  curl: ["bash", "shell", "sh", "curl"],
+  bash: ["bash", "shell", "sh", "curl"],
+};
+
+function languageAliases(language: string): string[] {
+  const key = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[key] ?? [key];
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^$()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Regex matching an API path as it appears in code: {param} placeholders match any
+ * concrete segment (e.g. a voice ID), and the path must end there (query string, quote or whitespace).
+ */
+function apiPathPattern(apiPath: string): string {
+  const path = apiPath.trim().replace(/\/+$/, "");
+  const segments = path.split(/(\{[^}]+\})/).map((part) =>
+    /^\{[^}]+\}$/.test(part) ? `[^/\\s"'\`?]+` : escapeRegex(part)
+  );
+  return `${segments.join("")}(?:[?"'\`\\s)]|$)`;
+}
+
+// SDK calls are matched case-insensitively with underscores dropped, so text_to_speech.convert finds textToSpeech.convert
+function normalizeSdkCall(sdkCall: string): string {
+  return sdkCall.trim().toLowerCase().replace(/_/g, "");
+}
+
+/**
+ * Searches fenced code blocks in the docs. Every given filter must match:
+ * - language: the block's fence language (with common aliases, e.g. curl covers bash/shell)
+ * - apiPath: an API path the code calls, with {param} placeholders matching concrete values
+ * - sdkCall: an SDK method the code calls, e.g. client.text_to_speech.convert
+ * - query: keywords that must each appear in the code, its headings or the prose just before it
+ * Blocks are returned whole with their heading breadcrumb and introducing paragraph.
+ */
+export async function handleFindCodeExamples(
+  args: FindCodeExamplesArgs,
+  service: DuckDBService
+): Promise<FindCodeExamplesResult> {
+  if (!args.query && !args.language && !args.apiPath && !args.sdkCall) {
+    throw new Error("Missing required argument: at least one of query, language, apiPath or sdkCall");
+  }
+  const limit = Math.min(Math.max(Math.floor(args.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+  const terms = [
+    ...new Set(args.query?.toLowerCase().match(new RegExp(DuckDBService.SEARCH_TOKEN_PATTERN, "g")) ?? []),
+  ];
+
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (args.language) {
+    const aliases = languageAliases(args.language);
+    conditions.push(`lower(language) IN (${aliases.map(() => "?").join(", ")})`);
+    params.push(...aliases);
+  }
+  if (args.apiPath) {
+    conditions.push("regexp_matches(content, ?)");
+    params.push(apiPathPattern(args.apiPath));
+  }
+  if (args.sdkCall) {
+    conditions.push("contains(replace(lower(content), '_', ''), ?)");
+    params.push(normalizeSdkCall(args.sdkCall));
+  }
+  for (const term of terms) {
+    conditions.push("contains(searchText, ?)");
+    params.push(term);
+  }
+
+  // Keyword hits in the code itself rank above hits in headings or the introducing paragraph
+  const scoreSql = terms.length > 0
+    ? terms.map(() => "(CASE WHEN contains(lower(content), ?) THEN 2 ELSE 1 END)").join(" + ")
+    : "0";
+
+  const sql = `
+    WITH blocks AS (
+      SELECT
+        filePath,
+        fileName,
+        heading1,
+        heading2,
+        heading3,
+        contentType,
+        language,
+        content,
+        lineNumber,
+        "order",
+        url,
+        source,
+        repository,
+        sourceUrl,
+        -- The last paragraph before the block within the same section
+        last_value(CASE WHEN contentType = 'paragraph' THEN content END IGNORE NULLS) OVER (
+          PARTITION BY filePath, heading1, heading2, heading3
+          ORDER BY "order" ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+        ) AS intro
+      FROM docs_content
+    ),
+    code_blocks AS (
+      SELECT *, lower(concat_ws(' ', content, heading1, heading2, heading3, intro)) AS searchText
+      FROM blocks
+      WHERE contentType = 'code'
+    )
+    SELECT
+      filePath, fileName, heading1, heading2, heading3, language, content, lineNumber, intro, url, source, repository, sourceUrl,
+      ${scoreSql} AS score,
+      count(*) OVER ()::INTEGER AS totalMatches
+    FROM code_blocks
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY score DESC, filePath, "order"
+    LIMIT ?;
+  `;
+  const [rows, metadata] = await Promise.all([
+    service.executeQuery(sql, [...terms, ...params, limit]),
+    service.getIndexMetadata(),
+  ]);
+
+  const examples: CodeExample[] = rows.map((row) => ({
+    language: row.language ?? null,
+    code: row.content,
+    breadcrumb: [row.heading1, row.heading2, row.heading3].filter(Boolean),
+    intro: row.intro ?? null,
+    name: row.fileName,
+    path: row.filePath,
+    lineNumber: row.lineNumber ?? undefined,
+    source: row.source,
+    repository: row.repository,
+    url: row.url ?? row.sourceUrl,
+    sourceUrl: row.sourceUrl,
+    resourceUri: docResourceUri(row.filePath),
+  }));
+
+  return { examples, totalMatches: rows[0]?.totalMatches ?? 0, docsCommitSha: metadata?.docsCommitSha ?? null };
+}
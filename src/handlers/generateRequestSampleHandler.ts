@@ -0,0 +1,363 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import {
+  EndpointParameter,
+  GenerateRequestSampleArgs,
+  GenerateRequestSampleResult,
+  OperationDefinition,
+  RequestSampleTarget,
+} from "../types/interfaces.js";
+import { resolveSchemaRefs } from "./describeSchemaHandler.js";
+import { findOperationRow, parseOperationDefinition } from "./getEndpointHandler.js";
+
+const DEFAULT_BASE_URL = "https://api.elevenlabs.io";
+const API_KEY_HEADER = "xi-api-key";
+const API_KEY_ENV = "ELEVENLABS_API_KEY";
+const SAMPLE_FILE_PATH = "path/to/file";
+const TARGETS: RequestSampleTarget[] = ["curl", "typescript", "python"];
+
+// A single field of the request body, flattened for form encoding
+interface BodyField {
+  name: string;
+  value: any;
+  isFile: boolean;
+}
+
+/**
+ * Builds an example value from a (dereferenced) JSON schema.
+ * Objects only include their required properties; enums, defaults and examples are preferred over placeholders.
+ */
+function sampleValue(schema: any, name: string, depth = 0): any {
+  if (!schema || typeof schema !== "object" || depth > 8) {
+    return null;
+  }
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants)) {
+    const variant = variants.find((v: any) => v && v.type !== "null") ?? variants[0];
+    return sampleValue(variant, name, depth + 1);
+  }
+  if (Array.isArray(schema.allOf)) {
+    const merged: Record<string, any> = {};
+    for (const part of schema.allOf) {
+      const value = sampleValue(part, name, depth + 1);
+      if (value && typeof value === "object" && !Array.isArray(value)) Object.assign(merged, value);
+    }
+    return merged;
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type;
+  if (type === "object" || (!type && schema.properties)) {
+    const result: Record<string, any> = {};
+    for (const key of schema.required || []) {
+      const property = schema.properties?.[key];
+      result[key] = sampleValue(property, key, depth + 1);
+    }
+    return result;
+  }
+  switch (type) {
+    case "array":
+      return [sampleValue(schema.items, name, depth + 1)];
+    case "integer":
+    case "number":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "string":
+      if (schema.format === "binary") return SAMPLE_FILE_PATH;
+      if (schema.format === "date-time") return new Date(0).toISOString();
+      return `<${name}>`;
+    default:
+      return null;
+  }
+}
+
+function isBinarySchema(schema: any): boolean {
+  if (!schema || typeof schema !== "object") return false;
+  if (schema.format === "binary") return true;
+  if (schema.type === "array") return isBinarySchema(schema.items);
+  return false;
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/[^A-Za-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ""));
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/[^A-Za-z0-9]+/g, "_").toLowerCase();
+}
+
+function fileExtensionFor(contentType: string): string {
+  const subtype = contentType.split("/")[1] || "bin";
+  return subtype === "mpeg" ? "mp3" : subtype.replace(/[^a-z0-9]/gi, "") || "bin";
+}
+
+// Python literal equivalent of a JSON value
+function toPythonLiteral(value: any, indent = 0): string {
+  const pad = "    ".repeat(indent + 1);
+  const closePad = "    ".repeat(indent);
+  if (value === null || value === undefined) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (typeof value === "string" || typeof value === "number") return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map((v) => `${pad}${toPythonLiteral(v, indent + 1)},`).join("\n")}\n${closePad}]`;
+  }
+  const entries = Object.entries(value);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries.map(([k, v]) => `${pad}${JSON.stringify(k)}: ${toPythonLiteral(v, indent + 1)},`).join("\n")}\n${closePad}}`;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Picks the request content type, preferring JSON, then multipart, then whatever is declared first
+function pickContentType(available: string[], requested?: string): string | null {
+  if (requested) {
+    if (!available.includes(requested)) {
+      throw new Error(`Content type ${requested} is not accepted by this endpoint. Available: ${available.join(", ") || "none"}`);
+    }
+    return requested;
+  }
+  return (
+    available.find((ct) => ct === "application/json") ??
+    available.find((ct) => ct === "multipart/form-data") ??
+    available[0] ??
+    null
+  );
+}
+
+interface SampleContext {
+  method: string;
+  baseUrl: string;
+  apiPath: string;
+  pathParams: EndpointParameter[];
+  queryParams: { name: string; value: any }[];
+  headerParams: { name: string; value: any }[];
+  contentType: string | null;
+  body: any;
+  formFields: BodyField[];
+  responseContentType: string | null;
+}
+
+function renderCurl(ctx: SampleContext): string {
+  const lines: string[] = [];
+  for (const p of ctx.pathParams) {
+    lines.push(`${toSnakeCase(p.name).toUpperCase()}=${shellQuote(String(sampleValue(p.schema, p.name) ?? `<${p.name}>`))}`);
+  }
+  if (lines.length > 0) lines.push("");
+
+  let url = ctx.apiPath.replace(/\{([^}]+)\}/g, (_, name: string) => `\${${toSnakeCase(name).toUpperCase()}}`);
+  if (ctx.queryParams.length > 0) {
+    url += "?" + ctx.queryParams.map((q) => `${q.name}=${encodeURIComponent(String(q.value))}`).join("&");
+  }
+
+  const args: string[] = [`curl -X ${ctx.method} "${ctx.baseUrl}${url}"`];
+  args.push(`-H "${API_KEY_HEADER}: $${API_KEY_ENV}"`);
+  for (const h of ctx.headerParams) {
+    args.push(`-H ${shellQuote(`${h.name}: ${h.value}`)}`);
+  }
+  if (ctx.contentType === "multipart/form-data") {
+    for (const field of ctx.formFields) {
+      const value = field.isFile
+        ? `${field.name}=@${SAMPLE_FILE_PATH}`
+        : `${field.name}=${typeof field.value === "object" ? JSON.stringify(field.value) : field.value}`;
+      args.push(`-F ${shellQuote(value)}`);
+    }
+  } else if (ctx.contentType) {
+    args.push(`-H "Content-Type: ${ctx.contentType}"`);
+    args.push(`-d ${shellQuote(JSON.stringify(ctx.body ?? {}, null, 2))}`);
+  }
+  if (ctx.responseContentType && !ctx.responseContentType.includes("json")) {
+    args.push(`--output output.${fileExtensionFor(ctx.responseContentType)}`);
+  }
+
+  lines.push(args.join(" \\\n  "));
+  return lines.join("\n");
+}
+
+function renderTypeScript(ctx: SampleContext): string {
+  const isMultipart = ctx.contentType === "multipart/form-data";
+  const isBinaryResponse = !!ctx.responseContentType && !ctx.responseContentType.includes("json");
+  const fsImports = [
+    ...(isMultipart && ctx.formFields.some((f) => f.isFile) ? ["readFile"] : []),
+    ...(isBinaryResponse ? ["writeFile"] : []),
+  ];
+
+  const lines: string[] = [];
+  if (fsImports.length > 0) {
+    lines.push(`import { ${fsImports.join(", ")} } from "node:fs/promises";`, "");
+  }
+  for (const p of ctx.pathParams) {
+    lines.push(`const ${toCamelCase(p.name)} = ${JSON.stringify(String(sampleValue(p.schema, p.name) ?? `<${p.name}>`))};`);
+  }
+  if (ctx.pathParams.length > 0) lines.push("");
+
+  let url = ctx.apiPath.replace(/\{([^}]+)\}/g, (_, name: string) => `\${${toCamelCase(name)}}`);
+  if (ctx.queryParams.length > 0) {
+    url += "?" + ctx.queryParams.map((q) => `${q.name}=${encodeURIComponent(String(q.value))}`).join("&");
+  }
+
+  const headers = [`    "${API_KEY_HEADER}": process.env.${API_KEY_ENV}!,`];
+  for (const h of ctx.headerParams) {
+    headers.push(`    ${JSON.stringify(h.name)}: ${JSON.stringify(String(h.value))},`);
+  }
+
+  let bodyLine: string | null = null;
+  if (isMultipart) {
+    lines.push("const form = new FormData();");
+    for (const field of ctx.formFields) {
+      if (field.isFile) {
+        lines.push(`form.append(${JSON.stringify(field.name)}, new Blob([await readFile(${JSON.stringify(SAMPLE_FILE_PATH)})]), "file");`);
+      } else {
+        const value = typeof field.value === "object" ? `JSON.stringify(${JSON.stringify(field.value)})` : JSON.stringify(String(field.value));
+        lines.push(`form.append(${JSON.stringify(field.name)}, ${value});`);
+      }
+    }
+    lines.push("");
+    bodyLine = "  body: form,";
+  } else if (ctx.contentType) {
+    headers.push(`    "Content-Type": ${JSON.stringify(ctx.contentType)},`);
+    const json = JSON.stringify(ctx.body ?? {}, null, 2).replace(/\n/g, "\n  ");
+    bodyLine = `  body: JSON.stringify(${json}),`;
+  }
+
+  lines.push(`const response = await fetch(\`${ctx.baseUrl}${url}\`, {`);
+  lines.push(`  method: "${ctx.method}",`);
+  lines.push("  headers: {", ...headers, "  },");
+  if (bodyLine) lines.push(bodyLine);
+  lines.push("});");
+  lines.push("");
+  lines.push("if (!response.ok) {");
+  lines.push("  throw new Error(`Request failed: ${response.status} ${await response.text()}`);");
+  lines.push("}");
+  if (isBinaryResponse) {
+    lines.push(`await writeFile("output.${fileExtensionFor(ctx.responseContentType!)}", Buffer.from(await response.arrayBuffer()));`);
+  } else if (ctx.responseContentType) {
+    lines.push("console.log(await response.json());");
+  }
+  return lines.join("\n");
+}
+
+function renderPython(ctx: SampleContext): string {
+  const isMultipart = ctx.contentType === "multipart/form-data";
+  const lines: string[] = ["import os", "", "import requests", ""];
+  for (const p of ctx.pathParams) {
+    lines.push(`${toSnakeCase(p.name)} = ${JSON.stringify(String(sampleValue(p.schema, p.name) ?? `<${p.name}>`))}`);
+  }
+  if (ctx.pathParams.length > 0) lines.push("");
+
+  const url = ctx.apiPath.replace(/\{([^}]+)\}/g, (_, name: string) => `{${toSnakeCase(name)}}`);
+  const isRawBody = !!ctx.contentType && !isMultipart && ctx.contentType !== "application/json";
+  const headerEntries = [
+    `"${API_KEY_HEADER}": os.environ["${API_KEY_ENV}"]`,
+    ...ctx.headerParams.map((h) => `${JSON.stringify(h.name)}: ${JSON.stringify(String(h.value))}`),
+    ...(isRawBody ? [`"Content-Type": ${JSON.stringify(ctx.contentType)}`] : []),
+  ];
+
+  const callArgs: string[] = [`    ${ctx.pathParams.length > 0 ? "f" : ""}"${ctx.baseUrl}${url}",`];
+  callArgs.push(`    headers={${headerEntries.join(", ")}},`);
+  if (ctx.queryParams.length > 0) {
+    const params = Object.fromEntries(ctx.queryParams.map((q) => [q.name, q.value]));
+    callArgs.push(`    params=${toPythonLiteral(params, 1)},`);
+  }
+  if (isMultipart) {
+    const data = Object.fromEntries(
+      ctx.formFields.filter((f) => !f.isFile).map((f) => [f.name, typeof f.value === "object" ? JSON.stringify(f.value) : f.value])
+    );
+    if (Object.keys(data).length > 0) callArgs.push(`    data=${toPythonLiteral(data, 1)},`);
+    const files = ctx.formFields.filter((f) => f.isFile);
+    if (files.length > 0) {
+      callArgs.push(`    files=[${files.map((f) => `(${JSON.stringify(f.name)}, open(${JSON.stringify(SAMPLE_FILE_PATH)}, "rb"))`).join(", ")}],`);
+    }
+  } else if (ctx.contentType === "application/json") {
+    callArgs.push(`    json=${toPythonLiteral(ctx.body ?? {}, 1)},`);
+  } else if (isRawBody) {
+    callArgs.push(`    data=${JSON.stringify(JSON.stringify(ctx.body ?? {}))},`);
+  }
+
+  lines.push(`response = requests.${ctx.method.toLowerCase()}(`, ...callArgs, ")");
+  lines.push("response.raise_for_status()");
+  if (ctx.responseContentType && !ctx.responseContentType.includes("json")) {
+    lines.push("", `with open("output.${fileExtensionFor(ctx.responseContentType)}", "wb") as f:`, "    f.write(response.content)");
+  } else if (ctx.responseContentType) {
+    lines.push("print(response.json())");
+  }
+  return lines.join("\n");
+}
+
+export async function handleGenerateRequestSample(
+  args: GenerateRequestSampleArgs,
+  service: DuckDBService
+): Promise<GenerateRequestSampleResult> {
+  if (!args.target) {
+    throw new Error("Missing required argument: target");
+  }
+  if (!TARGETS.includes(args.target)) {
+    throw new Error(`Unsupported target "${args.target}". Supported targets: ${TARGETS.join(", ")}`);
+  }
+
+  const row = await findOperationRow(args, service);
+  const definition: OperationDefinition = await resolveSchemaRefs(parseOperationDefinition(row), service, row.filePath);
+
+  const requestContent = definition.requestBody?.content ?? {};
+  const contentType = pickContentType(Object.keys(requestContent), args.contentType);
+  const requestSchema = contentType ? requestContent[contentType]?.schema : null;
+  const body = requestSchema ? sampleValue(requestSchema, "body") : null;
+
+  // Multipart bodies are sent field by field; binary fields become file uploads
+  const formFields: BodyField[] = [];
+  if (contentType === "multipart/form-data" && requestSchema?.properties) {
+    for (const key of requestSchema.required || []) {
+      const property = requestSchema.properties[key];
+      formFields.push({ name: key, value: body?.[key], isFile: isBinarySchema(property) });
+    }
+  }
+
+  // Use the first successful response to decide how the sample consumes the result
+  const successStatus = Object.keys(definition.responses).sort().find((status) => status.startsWith("2"));
+  const responseContentTypes = successStatus ? Object.keys(definition.responses[successStatus].content) : [];
+  const responseContentType =
+    responseContentTypes.find((ct) => ct.includes("json")) ?? responseContentTypes[0] ?? null;
+
+  const params = definition.parameters;
+  const required = (location: string) =>
+    params
+      .filter((p) => p.in === location && p.required && p.name.toLowerCase() !== API_KEY_HEADER)
+      .map((p) => ({ name: p.name, value: sampleValue(p.schema, p.name) ?? `<${p.name}>` }));
+
+  const baseUrl = (definition.servers?.[0] ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const ctx: SampleContext = {
+    method: row.method,
+    baseUrl,
+    apiPath: row.apiPath,
+    pathParams: params.filter((p) => p.in === "path"),
+    queryParams: required("query"),
+    headerParams: required("header"),
+    contentType,
+    body,
+    formFields,
+    responseContentType,
+  };
+
+  const renderers: Record<RequestSampleTarget, (ctx: SampleContext) => string> = {
+    curl: renderCurl,
+    typescript: renderTypeScript,
+    python: renderPython,
+  };
+
+  return {
+    target: args.target,
+    method: row.method,
+    apiPath: row.apiPath,
+    operationId: definition.operationId,
+    contentType,
+    baseUrl,
+    code: renderers[args.target](ctx),
+  };
+}
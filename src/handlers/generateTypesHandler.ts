@@ -0,0 +1,428 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import { EndpointContentSchema, GenerateTypesArgs, GenerateTypesResult, OperationDefinition } from "../types/interfaces.js";
+import { findSchemaRow, isNullSchema, recursiveRef, resolveSchemaRefs } from "./describeSchemaHandler.js";
+import { findOperationRow, parseOperationDefinition } from "./getEndpointHandler.js";
+
+const INDENT = "  ";
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// A named type of the generated code: its TypeScript declaration and, with zod, its validator
+interface Declaration {
+  name: string;
+  typeScript: string;
+  zod?: string;
+}
+
+interface GeneratorState {
+  withZod: boolean;
+  // Named types in the order they were completed, so each one comes after the types it uses
+  declarations: Declaration[];
+  // The shape of every name taken so far, including the types still being generated
+  shapes: Map<string, string>;
+}
+
+// Schema titles as TypeScript identifiers
+function typeName(title: string): string {
+  const name = title.replace(/[^A-Za-z0-9_$]/g, "_");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function pascalCase(text: string): string {
+  return text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+}
+
+/**
+ * Strips the ways a schema can say "or null" (nullable, null in type arrays and enums, null
+ * anyOf/oneOf variants) and single-part allOf wrappers. Unlike normalize in describeSchemaHandler,
+ * a lone remaining variant is returned as it is, so a named schema keeps its own title.
+ */
+function unwrap(input: any): { schema: any; nullable: boolean } {
+  if (!input || typeof input !== "object" || recursiveRef(input)) {
+    return { schema: input, nullable: false };
+  }
+  const key = Array.isArray(input.anyOf) ? "anyOf" : Array.isArray(input.oneOf) ? "oneOf" : undefined;
+  if (key && input[key].some(isNullSchema)) {
+    const variants = input[key].filter((v: any) => !isNullSchema(v));
+    if (variants.length === 1) return { schema: unwrap(variants[0]).schema, nullable: true };
+    return { schema: { ...input, [key]: variants }, nullable: true };
+  }
+  if (Array.isArray(input.allOf) && input.allOf.length === 1 && !input.properties) {
+    const inner = unwrap(input.allOf[0]);
+    return { schema: inner.schema, nullable: inner.nullable || input.nullable === true };
+  }
+
+  let schema = input;
+  let nullable = input.nullable === true;
+  if (Array.isArray(schema.type) && schema.type.includes("null")) {
+    const types = schema.type.filter((t: string) => t !== "null");
+    schema = { ...schema, type: types.length === 1 ? types[0] : types };
+    nullable = true;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.includes(null)) {
+    schema = { ...schema, enum: schema.enum.filter((v: any) => v !== null) };
+    nullable = true;
+  }
+  return { schema, nullable };
+}
+
+/**
+ * The title a schema is declared under: objects, enums and unions with an identifier-like title.
+ * Field titles ("Voice Id") and titled primitives are inlined.
+ */
+function namedTitle(schema: any): string | undefined {
+  if (!schema || typeof schema !== "object" || typeof schema.title !== "string") return undefined;
+  if (!IDENTIFIER_PATTERN.test(schema.title)) return undefined;
+  const isNamedKind =
+    !!schema.properties ||
+    Array.isArray(schema.enum) ||
+    Array.isArray(schema.oneOf ?? schema.anyOf) ||
+    (Array.isArray(schema.allOf) && schema.allOf.length > 1);
+  return isNamedKind ? schema.title : undefined;
+}
+
+// Enough of a schema to tell two schemas with the same title apart (recursion markers aside)
+function shapeOf(schema: any): string {
+  return JSON.stringify([
+    Object.keys(schema?.properties ?? {}).sort(),
+    schema?.enum ?? null,
+    (schema?.oneOf ?? schema?.anyOf ?? schema?.allOf ?? []).length,
+    schema?.type ?? null,
+  ]);
+}
+
+/**
+ * The name a schema is referred to by, declaring it on first use; undefined to inline it.
+ * A title already taken by a different schema (e.g. two "Type" enums) is inlined instead.
+ */
+function reference(schema: any, state: GeneratorState): string | undefined {
+  const marker = recursiveRef(schema);
+  if (marker) {
+    const name = typeName(marker);
+    return state.shapes.has(name) ? name : undefined;
+  }
+  const title = namedTitle(schema);
+  if (!title) return undefined;
+  const name = typeName(title);
+  const shape = state.shapes.get(name);
+  if (shape === undefined) {
+    declare(name, schema, state);
+    return name;
+  }
+  return shape === shapeOf(schema) ? name : undefined;
+}
+
+function jsDoc(text: string | undefined | null, indent: string): string {
+  if (typeof text !== "string" || !text.trim()) return "";
+  const lines = text.trim().replace(/\*\//g, "*\\/").split(/\r?\n/).map((line) => line.trimEnd());
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} *${line ? ` ${line}` : ""}`).join("\n")}\n${indent} */\n`;
+}
+
+// A property's own description; one that repeats the description of the named type it refers to is left to that type
+function propertyDoc(property: any, indent: string): string {
+  const description = property?.description;
+  const { schema } = unwrap(property);
+  if (namedTitle(schema) && schema.description === description) return "";
+  return jsDoc(description, indent);
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key);
+}
+
+function isBinary(schema: any): boolean {
+  const { schema: inner } = unwrap(schema);
+  return inner?.type === "string" && inner.format === "binary";
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+// The values of a union whose variants are each fixed values (unnamed enums or consts), read as one enum
+function unionValues(variants: any[]): any[] | undefined {
+  const schemas = variants.map((v) => unwrap(v).schema);
+  const isValue = (v: any) => v && typeof v === "object" && !namedTitle(v) && (Array.isArray(v.enum) || v.const !== undefined);
+  if (!schemas.every(isValue)) return undefined;
+  return [...new Set(schemas.flatMap((v) => (Array.isArray(v.enum) ? v.enum : [v.const])))];
+}
+
+// The JSON schema types a schema allows (properties without a type mean an object)
+function schemaTypes(schema: any): (string | undefined)[] {
+  if (Array.isArray(schema.type)) return schema.type;
+  return [schema.type ?? (schema.properties || schema.additionalProperties ? "object" : undefined)];
+}
+
+// --- TypeScript ---
+
+function tsType(input: any, state: GeneratorState, indent: string, declaring = false): string {
+  const { schema, nullable } = unwrap(input);
+  const type = tsBaseType(schema, state, indent, declaring);
+  return nullable && type !== "unknown" ? `${type} | null` : type;
+}
+
+function tsBaseType(schema: any, state: GeneratorState, indent: string, declaring: boolean): string {
+  if (!schema || typeof schema !== "object") return "unknown";
+  if (!declaring) {
+    const name = reference(schema, state);
+    if (name) return name;
+  }
+  if (recursiveRef(schema)) return "unknown";
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  const variants = schema.oneOf ?? schema.anyOf;
+  const values = Array.isArray(schema.enum) ? schema.enum : Array.isArray(variants) ? unionValues(variants) : undefined;
+  if (values) {
+    return values.length > 0 ? unique(values.map((v: any) => JSON.stringify(v))).join(" | ") : "never";
+  }
+  if (Array.isArray(variants)) {
+    return unique(variants.map((v: any) => tsType(v, state, indent))).join(" | ");
+  }
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part: any) => tsType(part, state, indent));
+    if (schema.properties) parts.push(tsObject(schema, state, indent));
+    return parts.map((part: string) => (part.includes(" | ") ? `(${part})` : part)).join(" & ");
+  }
+  return unique(schemaTypes(schema).map((type) => tsTypeOf(type, schema, state, indent))).join(" | ");
+}
+
+function tsTypeOf(type: string | undefined, schema: any, state: GeneratorState, indent: string): string {
+  switch (type) {
+    case "string":
+      return schema.format === "binary" ? "Blob" : "string";
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "null":
+      return "null";
+    case "array": {
+      const item = schema.items ? tsType(schema.items, state, indent) : "unknown";
+      return /[|&]/.test(item) ? `Array<${item}>` : `${item}[]`;
+    }
+    case "object":
+      return tsObject(schema, state, indent);
+    default:
+      return "unknown";
+  }
+}
+
+function tsObject(schema: any, state: GeneratorState, indent: string): string {
+  const properties = Object.entries<any>(schema.properties ?? {});
+  if (properties.length === 0) {
+    const values = schema.additionalProperties;
+    return `Record<string, ${values && typeof values === "object" ? tsType(values, state, indent) : "unknown"}>`;
+  }
+  const required = new Set<string>(schema.required ?? []);
+  const inner = indent + INDENT;
+  const lines = properties.map(([key, property]) =>
+    `${propertyDoc(property, inner)}${inner}${propertyKey(key)}${required.has(key) ? "" : "?"}: ${tsType(property, state, inner)};`
+  );
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+// --- zod ---
+
+// Types declared further down (recursion) are referenced lazily
+function zodReference(name: string, state: GeneratorState): string {
+  return state.declarations.some((d) => d.name === name) ? `${name}Schema` : `z.lazy(() => ${name}Schema)`;
+}
+
+function zodUnion(options: string[]): string {
+  const distinct = unique(options);
+  return distinct.length === 1 ? distinct[0] : `z.union([${distinct.join(", ")}])`;
+}
+
+function zodType(input: any, state: GeneratorState, indent: string, declaring = false): string {
+  const { schema, nullable } = unwrap(input);
+  const type = zodBaseType(schema, state, indent, declaring);
+  return nullable && type !== "z.unknown()" ? `${type}.nullable()` : type;
+}
+
+function zodBaseType(schema: any, state: GeneratorState, indent: string, declaring: boolean): string {
+  if (!schema || typeof schema !== "object") return "z.unknown()";
+  if (!declaring) {
+    const name = reference(schema, state);
+    if (name) return zodReference(name, state);
+  }
+  if (recursiveRef(schema)) return "z.unknown()";
+  const literal = (value: any) => `z.literal(${JSON.stringify(value)})`;
+  if (schema.const !== undefined) return literal(schema.const);
+  const variants = schema.oneOf ?? schema.anyOf;
+  const enumValues = Array.isArray(schema.enum) ? schema.enum : Array.isArray(variants) ? unionValues(variants) : undefined;
+  if (enumValues) {
+    const values = [...new Set<any>(enumValues)];
+    if (values.length === 0) return "z.never()";
+    if (values.every((v) => typeof v === "string")) return `z.enum([${values.map((v) => JSON.stringify(v)).join(", ")}])`;
+    return zodUnion(values.map(literal));
+  }
+  if (Array.isArray(variants)) {
+    return zodUnion(variants.map((v: any) => zodType(v, state, indent)));
+  }
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part: any) => zodType(part, state, indent));
+    if (schema.properties) parts.push(zodObject(schema, state, indent));
+    return parts.reduce((left: string, right: string) => `${left}.and(${right})`);
+  }
+  return zodUnion(schemaTypes(schema).map((type) => zodTypeOf(type, schema, state, indent)));
+}
+
+function zodTypeOf(type: string | undefined, schema: any, state: GeneratorState, indent: string): string {
+  switch (type) {
+    case "string":
+      return schema.format === "binary" ? "z.instanceof(Blob)" : "z.string()";
+    case "integer":
+      return "z.number().int()";
+    case "number":
+      return "z.number()";
+    case "boolean":
+      return "z.boolean()";
+    case "null":
+      return "z.null()";
+    case "array":
+      return `z.array(${schema.items ? zodType(schema.items, state, indent) : "z.unknown()"})`;
+    case "object":
+      return zodObject(schema, state, indent);
+    default:
+      return "z.unknown()";
+  }
+}
+
+function zodObject(schema: any, state: GeneratorState, indent: string): string {
+  const properties = Object.entries<any>(schema.properties ?? {});
+  if (properties.length === 0) {
+    const values = schema.additionalProperties;
+    return `z.record(z.string(), ${values && typeof values === "object" ? zodType(values, state, indent) : "z.unknown()"})`;
+  }
+  const required = new Set<string>(schema.required ?? []);
+  const inner = indent + INDENT;
+  const lines = properties.map(([key, property]) =>
+    `${inner}${propertyKey(key)}: ${zodType(property, state, inner)}${required.has(key) ? "" : ".optional()"},`
+  );
+  return `z.object({\n${lines.join("\n")}\n${indent}})`;
+}
+
+/**
+ * Declares a named type (and its zod schema), after the named types it uses.
+ * Objects become interfaces; enums, unions, arrays and nullable schemas become type aliases.
+ */
+function declare(name: string, schema: any, state: GeneratorState): void {
+  const { schema: body, nullable } = unwrap(schema);
+  state.shapes.set(name, shapeOf(body));
+
+  const doc = jsDoc(schema?.description ?? body?.description, "");
+  const isInterface = !nullable && !!body?.properties && !body.oneOf && !body.anyOf && !body.allOf &&
+    (body.type ?? "object") === "object";
+  const typeScript = isInterface
+    ? `${doc}export interface ${name} ${tsObject(body, state, "")}`
+    : `${doc}export type ${name} = ${tsType(schema, state, "", true)};`;
+  const zod = state.withZod
+    ? `export const ${name}Schema: z.ZodType<${name}> = ${zodType(schema, state, "", true)};`
+    : undefined;
+  state.declarations.push({ name, typeScript, zod });
+}
+
+// The schema of a request or response: JSON first, then multipart, then any content type with a schema
+function pickSchema(content: Record<string, EndpointContentSchema>): any {
+  const contentTypes = Object.keys(content).filter((contentType) => content[contentType]?.schema);
+  const chosen =
+    contentTypes.find((contentType) => contentType.includes("json")) ??
+    contentTypes.find((contentType) => contentType === "multipart/form-data") ??
+    contentTypes[0];
+  return chosen ? content[chosen].schema : null;
+}
+
+// Declares a root under its own name when it is a named schema, otherwise under fallbackName
+function declareRoot(schema: any, fallbackName: string, state: GeneratorState): string {
+  const name = reference(unwrap(schema).schema, state);
+  if (name) return name;
+  declare(fallbackName, schema, state);
+  return fallbackName;
+}
+
+/**
+ * Generates TypeScript types, and optionally zod schemas, for named API schemas or for the request
+ * body and success responses of one endpoint. Nested named schemas are declared once and referred to
+ * by name; recursive references become lazy zod schemas.
+ */
+export async function handleGenerateTypes(
+  args: GenerateTypesArgs,
+  service: DuckDBService
+): Promise<GenerateTypesResult> {
+  const hasEndpoint = !!(args.apiPath || args.operationId);
+  if (args.schemaNames !== undefined) {
+    if (!Array.isArray(args.schemaNames) || args.schemaNames.length === 0 || args.schemaNames.some((n) => typeof n !== "string" || !n)) {
+      throw new Error("schemaNames must be a non-empty array of schema names");
+    }
+    if (hasEndpoint) {
+      throw new Error("Pass either schemaNames or an endpoint (apiPath with method, or operationId), not both");
+    }
+  } else if (!hasEndpoint) {
+    throw new Error("Missing required argument: schemaNames, or an endpoint (apiPath with method, or operationId)");
+  }
+
+  const state: GeneratorState = { withZod: args.zod === true, declarations: [], shapes: new Map() };
+  const roots: string[] = [];
+  let endpoint: GenerateTypesResult["endpoint"];
+
+  if (args.schemaNames) {
+    const rows = await Promise.all(args.schemaNames.map((schemaName) => findSchemaRow(schemaName, service)));
+    for (const row of rows) {
+      let definition: any;
+      try {
+        definition = JSON.parse(row.schemaDefinition);
+      } catch {
+        throw new Error(`Schema ${row.summary} has an unreadable definition in the index`);
+      }
+      definition = await resolveSchemaRefs(definition, service, row.filePath, row.summary);
+      const name = typeName(row.summary);
+      if (!state.shapes.has(name)) declare(name, definition, state);
+      roots.push(name);
+    }
+  } else {
+    const row = await findOperationRow(args, service);
+    const definition: OperationDefinition = await resolveSchemaRefs(parseOperationDefinition(row), service, row.filePath);
+    endpoint = { method: row.method, apiPath: row.apiPath, operationId: definition.operationId };
+    const baseName = pascalCase(definition.operationId ?? `${row.method} ${row.apiPath}`);
+
+    const request = definition.requestBody ? pickSchema(definition.requestBody.content) : null;
+    if (request && !isBinary(request)) {
+      roots.push(declareRoot(request, `${baseName}Request`, state));
+    }
+    // Success responses; binary ones (audio, files) have nothing to type
+    const responses = Object.keys(definition.responses)
+      .filter((status) => status.startsWith("2"))
+      .sort()
+      .map((status) => ({ status, schema: pickSchema(definition.responses[status].content) }))
+      .filter((response) => response.schema && !isBinary(response.schema));
+    for (const { status, schema } of responses) {
+      const fallbackName = responses.length > 1 ? `${baseName}Response${status}` : `${baseName}Response`;
+      roots.push(declareRoot(schema, fallbackName, state));
+    }
+    if (roots.length === 0) {
+      throw new Error(`${row.method} ${row.apiPath} has no request or response schemas to generate types from`);
+    }
+  }
+
+  const metadata = await service.getIndexMetadata();
+  const docsCommitSha: string | null = metadata?.docsCommitSha ?? null;
+  const header = [
+    `// Generated by elevenlabs_generate_types from the ElevenLabs API spec${docsCommitSha ? ` (docs commit ${docsCommitSha.slice(0, 12)})` : ""}.`,
+    ...(state.withZod ? ['import { z } from "zod";'] : []),
+  ];
+  const blocks = state.declarations.flatMap((d) => (d.zod ? [d.typeScript, d.zod] : [d.typeScript]));
+
+  const result: GenerateTypesResult = {
+    roots: [...new Set(roots)],
+    types: state.declarations.map((d) => d.name),
+    zod: state.withZod,
+    code: `${[header.join("\n"), ...blocks].join("\n\n")}\n`,
+    docsCommitSha,
+  };
+  if (endpoint) result.endpoint = endpoint;
+  return result;
+}
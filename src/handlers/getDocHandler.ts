@@ -0,0 +1,191 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import { GetDocArgs, GetDocResult } from "../types/interfaces.js";
+
+/**
+ * Resolves a user-supplied path to exactly one indexed filePath.
+ * Exact filePath matches win, then exact fileName / path-suffix matches, then partial matches.
+ * Throws with the closest candidates when the path is missing or ambiguous.
+ */
+async function resolveDocPath(requestedPath: string, service: DuckDBService): Promise<string> {
+  const sql = `
+    SELECT filePath
+    FROM docs_files
+    WHERE
+      filePath = ?
+      OR fileName = ?
+      OR lower(filePath) LIKE lower(?)
+    ORDER BY filePath;
+  `;
+  const rows = await service.executeQuery(sql, [
+    requestedPath,
+    requestedPath,
+    `%${requestedPath}%`,
+  ]);
+  const paths = rows.map((row) => row.filePath as string);
+
+  const exact = paths.find((p) => p === requestedPath);
+  if (exact) return exact;
+
+  // Prefer matches on a whole path segment (e.g. "streaming.mdx" or "capabilities/streaming.mdx")
+  const suffixMatches = paths.filter((p) => p.endsWith(`/${requestedPath}`));
+  if (suffixMatches.length === 1) return suffixMatches[0];
+  if (suffixMatches.length === 0 && paths.length === 1) return paths[0];
+
+  if (paths.length > 1) {
+    const candidates = suffixMatches.length > 1 ? suffixMatches : paths;
+    throw new Error(
+      `Ambiguous document path "${requestedPath}" matches ${candidates.length} files. Closest candidates: ${candidates.slice(0, 10).join(", ")}`
+    );
+  }
+
+  // Nothing matched: suggest the nearest paths by edit distance on the file name
+  const closestSql = `
+    SELECT filePath
+    FROM docs_files
+    ORDER BY levenshtein(lower(fileName), lower(?)), filePath
+    LIMIT 5;
+  `;
+  const baseName = requestedPath.split("/").pop() || requestedPath;
+  const closest = await service.executeQuery(closestSql, [baseName]);
+  const suggestions = closest.map((row) => row.filePath as string);
+  throw new Error(
+    `Document not found: "${requestedPath}".` +
+      (suggestions.length > 0 ? ` Closest candidates: ${suggestions.join(", ")}` : "")
+  );
+}
+
+function isHeadingLine(line: string): boolean {
+  return /^#{1,6}\s+/.test(line);
+}
+
+export async function handleGetDoc(
+  args: GetDocArgs,
+  service: DuckDBService
+): Promise<GetDocResult> {
+  if (!args.path) {
+    throw new Error("Missing required argument: path");
+  }
+  if (args.section && (args.startLine !== undefined || args.endLine !== undefined)) {
+    throw new Error("Specify either section or startLine/endLine, not both");
+  }
+
+  const filePath = await resolveDocPath(args.path, service);
+
+  // One row per content block, in document order
+  const sql = `
+    SELECT
+      heading1,
+      heading2,
+      heading3,
+      lineNumber,
+      url
+    FROM docs_content
+    WHERE filePath = ?
+    ORDER BY "order";
+  `;
+  const rows = await service.executeQuery(sql, [filePath]);
+  const file = await service.executeQueryFirstRow(
+    `SELECT fileName, title, subtitle, url, repository, sourceUrl, fullContent FROM docs_files WHERE filePath = ?;`,
+    [filePath]
+  );
+  const fullContent: string = file?.fullContent ?? "";
+  const lines = fullContent.split(/\r?\n/);
+  const totalLines = lines.length;
+
+  // Outline of the document, built from the heading columns
+  const outline: string[] = [];
+  for (const row of rows) {
+    const crumb = [row.heading1, row.heading2, row.heading3].filter(Boolean).join(" > ");
+    if (crumb && outline[outline.length - 1] !== crumb) {
+      outline.push(crumb);
+    }
+  }
+
+  let startLine = 1;
+  let endLine = totalLines;
+  let breadcrumb: string[] = rows[0]?.heading1 ? [rows[0].heading1] : [];
+  let url: string = file?.url ?? file?.sourceUrl;
+
+  if (args.section) {
+    const wanted = args.section.trim().toLowerCase();
+    const levels = ["heading1", "heading2", "heading3"] as const;
+
+    // First block whose heading at any level matches the requested section
+    let firstIndex = -1;
+    let level = -1;
+    for (let i = 0; i < rows.length && firstIndex === -1; i++) {
+      for (let l = levels.length - 1; l >= 0; l--) {
+        const heading = rows[i][levels[l]];
+        if (heading && heading.toLowerCase() === wanted) {
+          firstIndex = i;
+          level = l;
+          break;
+        }
+      }
+    }
+    if (firstIndex === -1) {
+      const available = outline.length > 0 ? ` Available sections: ${outline.join("; ")}` : "";
+      throw new Error(`Section "${args.section}" not found in ${filePath}.${available}`);
+    }
+
+    const first = rows[firstIndex];
+    breadcrumb = levels.slice(0, level + 1).map((l) => first[l]).filter(Boolean);
+    // Link to the section's anchor when the first block sits directly under it (level 1 headings have none)
+    if (level > 0 && first.url && levels.slice(level + 1).every((l) => !first[l])) {
+      url = first.url;
+    }
+
+    // The section covers every following block that shares the same heading path up to its level
+    let lastIndex = firstIndex;
+    while (
+      lastIndex + 1 < rows.length &&
+      levels.slice(0, level + 1).every((l) => rows[lastIndex + 1][l] === first[l])
+    ) {
+      lastIndex++;
+    }
+
+    // Include the heading line itself, which precedes the first block
+    startLine = first.lineNumber ?? 1;
+    for (let i = startLine - 1; i >= 0; i--) {
+      if (isHeadingLine(lines[i]) && lines[i].replace(/^#{1,6}\s+/, "").trim().toLowerCase() === wanted) {
+        startLine = i + 1;
+        break;
+      }
+    }
+
+    // End just before the next section's heading (or at the end of the file)
+    const next = rows[lastIndex + 1];
+    endLine = next?.lineNumber ? next.lineNumber - 1 : totalLines;
+    while (endLine > startLine && (lines[endLine - 1].trim() === "" || isHeadingLine(lines[endLine - 1]))) {
+      endLine--;
+    }
+  } else if (args.startLine !== undefined || args.endLine !== undefined) {
+    startLine = Math.max(1, args.startLine ?? 1);
+    endLine = Math.min(totalLines, args.endLine ?? totalLines);
+    if (startLine > endLine) {
+      throw new Error(`Invalid line range ${startLine}-${endLine} for ${filePath} (${totalLines} lines)`);
+    }
+
+    // Breadcrumb of the last block starting at or before the requested start line
+    const enclosing = rows.filter((row) => row.lineNumber != null && row.lineNumber <= startLine).pop();
+    if (enclosing) {
+      breadcrumb = [enclosing.heading1, enclosing.heading2, enclosing.heading3].filter(Boolean);
+    }
+  }
+
+  return {
+    name: file?.fileName,
+    title: file?.title ?? null,
+    subtitle: file?.subtitle ?? null,
+    path: filePath,
+    repository: file?.repository,
+    url,
+    sourceUrl: file?.sourceUrl,
+    breadcrumb,
+    outline,
+    startLine,
+    endLine,
+    totalLines,
+    content: lines.slice(startLine - 1, endLine).join("\n"),
+  };
+}
@@ -0,0 +1,122 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import {
+  EndpointParameter,
+  GetEndpointArgs,
+  GetEndpointResult,
+  OperationDefinition,
+} from "../types/interfaces.js";
+
+/**
+ * Looks up a single operation row in api_spec.parquet by operationId or method + apiPath.
+ * If only apiPath is given and the path has a single operation, that operation is used.
+ * Throws with the closest candidates when nothing (or more than one operation) matches.
+ */
+export async function findOperationRow(
+  args: GetEndpointArgs,
+  service: DuckDBService
+): Promise<Record<string, any>> {
+  if (!args.operationId && !args.apiPath) {
+    throw new Error("Missing required argument: apiPath (with method) or operationId");
+  }
+
+  const sql = `
+    SELECT
+      filePath,
+      fileName,
+      apiPath,
+      method,
+      summary,
+      description,
+      operationId,
+      operationDefinition,
+      url,
+      repository,
+      sourceUrl
+    FROM api_spec
+    WHERE
+      type = 'api'
+      AND (
+        (operationId IS NOT NULL AND operationId = ?)
+        OR (apiPath = ? AND (? IS NULL OR method = upper(?)))
+      )
+    ORDER BY apiPath, method;
+  `;
+  const method = args.method ?? null;
+  const rows = await service.executeQuery(sql, [
+    args.operationId ?? null,
+    args.apiPath ?? null,
+    method,
+    method,
+  ]);
+
+  if (rows.length === 1) return rows[0];
+
+  if (rows.length > 1) {
+    const candidates = rows.map((row) => `${row.method} ${row.apiPath}`).join(", ");
+    throw new Error(`Ambiguous endpoint, specify method. Candidates: ${candidates}`);
+  }
+
+  // Nothing matched: suggest the nearest operations by edit distance
+  const target = args.apiPath ?? args.operationId!;
+  const closestSql = `
+    SELECT method, apiPath, operationId
+    FROM api_spec
+    WHERE type = 'api'
+    ORDER BY least(
+      levenshtein(lower(apiPath), lower(?)),
+      levenshtein(lower(coalesce(operationId, '')), lower(?))
+    ), apiPath
+    LIMIT 5;
+  `;
+  const closest = await service.executeQuery(closestSql, [target, target]);
+  const suggestions = closest.map((row) => `${row.method} ${row.apiPath}${row.operationId ? ` (${row.operationId})` : ""}`);
+  const label = args.apiPath ? `${args.method ? `${args.method.toUpperCase()} ` : ""}${args.apiPath}` : args.operationId;
+  throw new Error(
+    `Endpoint not found: ${label}.` + (suggestions.length > 0 ? ` Closest candidates: ${suggestions.join(", ")}` : "")
+  );
+}
+
+/**
+ * Parses the operationDefinition column, failing clearly for Parquet files built before it existed.
+ */
+export function parseOperationDefinition(row: Record<string, any>): OperationDefinition {
+  if (!row.operationDefinition) {
+    throw new Error(
+      `No operation definition indexed for ${row.method} ${row.apiPath}. Re-run the ETL (etl/run-etl.mjs) to rebuild api_spec.parquet.`
+    );
+  }
+  return JSON.parse(row.operationDefinition) as OperationDefinition;
+}
+
+export async function handleGetEndpoint(
+  args: GetEndpointArgs,
+  service: DuckDBService
+): Promise<GetEndpointResult> {
+  const row = await findOperationRow(args, service);
+  const definition = parseOperationDefinition(row);
+
+  const byLocation = (location: string): EndpointParameter[] =>
+    definition.parameters.filter((p) => p.in === location);
+
+  return {
+    method: row.method,
+    apiPath: row.apiPath,
+    operationId: definition.operationId,
+    summary: row.summary,
+    description: row.description,
+    tags: definition.tags,
+    deprecated: definition.deprecated,
+    parameters: {
+      path: byLocation("path"),
+      query: byLocation("query"),
+      header: byLocation("header"),
+      cookie: byLocation("cookie"),
+    },
+    requestBody: definition.requestBody,
+    responses: definition.responses,
+    path: row.filePath,
+    repository: row.repository,
+    url: row.url ?? row.sourceUrl,
+    sourceUrl: row.sourceUrl,
+  };
+}
@@ -1,20 +1,72 @@
 import { DuckDBService } from "../services/DuckDBService.js"; // Changed import
+import { ProgressCallback } from "../types/interfaces.js";
 import { handleSearchDocs } from "./searchDocsHandler.js";
+import { handleGetDoc } from "./getDocHandler.js";
+import { handleGetEndpoint } from "./getEndpointHandler.js";
+import { handleGenerateRequestSample } from "./generateRequestSampleHandler.js";
+import { handleDocsStructure } from "./docsStructureHandler.js";
+import { handleDescribeSchema } from "./describeSchemaHandler.js";
+import { handleSchemaUsage } from "./schemaUsageHandler.js";
+import { handleFindCodeExamples } from "./findCodeExamplesHandler.js";
+import { handleApiChanges } from "./apiChangesHandler.js";
+import { handleIndexInfo } from "./indexInfoHandler.js";
+import { handleReindex } from "./reindexHandler.js";
+import { handleGenerateTypes } from "./generateTypesHandler.js";
+import { handleListResources, handleReadResource, resourceTemplates } from "./resourcesHandler.js";
+import { handleGetPrompt } from "./promptsHandler.js";
 
 export {
   handleSearchDocs,
+  handleGetDoc,
+  handleGetEndpoint,
+  handleGenerateRequestSample,
+  handleDocsStructure,
+  handleDescribeSchema,
+  handleSchemaUsage,
+  handleFindCodeExamples,
+  handleApiChanges,
+  handleIndexInfo,
+  handleReindex,
+  handleGenerateTypes,
+  handleListResources,
+  handleReadResource,
+  resourceTemplates,
+  handleGetPrompt,
 };
 
 export async function handleToolRequest(
   toolName: string,
   args: any,
   // Changed client type to DuckDBService
-  service: DuckDBService
+  service: DuckDBService,
+  onProgress?: ProgressCallback
 ): Promise<any> {
   switch (toolName) {
     // Pass service instead of client, and args first for consistency if desired (or keep client/service first)
     case "elevenlabs_search_docs":
       return handleSearchDocs(args, service); // Pass service
+    case "elevenlabs_get_doc":
+      return handleGetDoc(args, service);
+    case "elevenlabs_get_endpoint":
+      return handleGetEndpoint(args, service);
+    case "elevenlabs_generate_request_sample":
+      return handleGenerateRequestSample(args, service);
+    case "elevenlabs_docs_structure":
+      return handleDocsStructure(args, service);
+    case "elevenlabs_describe_schema":
+      return handleDescribeSchema(args, service);
+    case "elevenlabs_schema_usage":
+      return handleSchemaUsage(args, service);
+    case "elevenlabs_find_code_examples":
+      return handleFindCodeExamples(args, service);
+    case "elevenlabs_api_changes":
+      return handleApiChanges(args, service);
+    case "elevenlabs_index_info":
+      return handleIndexInfo(service);
+    case "elevenlabs_reindex":
+      return handleReindex(service, onProgress);
+    case "elevenlabs_generate_types":
+      return handleGenerateTypes(args, service);
     default:
       throw new Error(`Unknown tool: ${toolName}`);
   }
@@ -0,0 +1,23 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import { IndexInfoResult } from "../types/interfaces.js";
+
+/**
+ * Describes the loaded index: the docs commit it was built from, when and by which ETL
+ * version, how many rows each table received, which files failed to parse and the commit of
+ * every indexed docs source.
+ * Data built before the ETL recorded this has null fields.
+ */
+export async function handleIndexInfo(service: DuckDBService): Promise<IndexInfoResult> {
+  const metadata = await service.getIndexMetadata();
+  return {
+    docsCommitSha: metadata?.docsCommitSha ?? null,
+    docsCommitDate: metadata?.docsCommitDate ?? null,
+    builtAt: metadata?.builtAt ?? null,
+    etlVersion: metadata?.etlVersion ?? null,
+    tableRowCounts: metadata?.tableRowCounts ? JSON.parse(metadata.tableRowCounts) : {},
+    failedFileCount: metadata?.failedFileCount ?? null,
+    failedFiles: metadata?.failedFiles ? JSON.parse(metadata.failedFiles) : [],
+    sources: metadata?.sources ? JSON.parse(metadata.sources) : [],
+    dataDir: service.getDataDir(),
+  };
+}
@@ -0,0 +1,290 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import { GetEndpointArgs, GetEndpointResult, GetPromptResult } from "../types/interfaces.js";
+import { schemaRef } from "./describeSchemaHandler.js";
+import { handleGetDoc } from "./getDocHandler.js";
+import { handleGetEndpoint } from "./getEndpointHandler.js";
+import { handleSearchDocs } from "./searchDocsHandler.js";
+
+// Caps keep prompts within a reasonable context budget
+const MAX_SECTION_CHARS = 3000;
+const MAX_DOC_SECTIONS = 4;
+const MAX_CODE_EXAMPLES = 3;
+
+// Fence languages used in the docs for each target language
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  python: ["python", "py"],
+  typescript: ["typescript", "ts", "javascript", "js", "tsx", "jsx"],
+  javascript: ["javascript", "js", "typescript", "ts"],
+  curl: ["bash", "shell", "sh", "curl"],
+};
+
+/**
+ * Parses "METHOD /path", "/path" or an operationId into endpoint lookup arguments.
+ */
+function parseEndpointRef(ref: string): GetEndpointArgs {
+  const trimmed = ref.trim();
+  const match = trimmed.match(/^([A-Za-z]+)\s+(\/\S*)$/);
+  if (match) {
+    return { method: match[1].toUpperCase(), apiPath: match[2] };
+  }
+  if (trimmed.startsWith("/")) {
+    return { apiPath: trimmed };
+  }
+  return { operationId: trimmed };
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n[...truncated]` : text;
+}
+
+function schemaType(schema: any): string {
+  if (!schema || typeof schema !== "object") return "unknown";
+  const ref = schemaRef(schema);
+  if (ref) return ref;
+  if (schema.title && schema.type === "object") return schema.title;
+  if (schema.type === "array") return `${schemaType(schema.items)}[]`;
+  if (schema.anyOf || schema.oneOf) {
+    return (schema.anyOf || schema.oneOf).map(schemaType).join(" | ");
+  }
+  return schema.format ? `${schema.type} (${schema.format})` : schema.type ?? "object";
+}
+
+// Top-level fields of a request/response schema, one line each
+function describeFields(schema: any): string[] {
+  if (!schema || typeof schema !== "object" || !schema.properties) return [];
+  const required = new Set<string>(schema.required || []);
+  return Object.entries<any>(schema.properties).map(([name, property]) => {
+    const parts = [`- \`${name}\` (${schemaType(property)}${required.has(name) ? ", required" : ""})`];
+    if (property?.description) parts.push(`: ${property.description}`);
+    if (Array.isArray(property?.enum)) parts.push(` Allowed values: ${property.enum.join(", ")}.`);
+    if (property?.default !== undefined) parts.push(` Default: ${JSON.stringify(property.default)}.`);
+    return parts.join("");
+  });
+}
+
+/**
+ * Renders an endpoint as compact markdown: parameters, request body fields and responses.
+ */
+function formatEndpoint(endpoint: GetEndpointResult): string {
+  const lines = [`### ${endpoint.method} ${endpoint.apiPath}`];
+  if (endpoint.summary) lines.push(endpoint.summary);
+  if (endpoint.description && endpoint.description !== endpoint.summary) lines.push(endpoint.description);
+  if (endpoint.operationId) lines.push(`operationId: ${endpoint.operationId}`);
+  if (endpoint.deprecated) lines.push("**Deprecated.**");
+
+  const params = [
+    ...endpoint.parameters.path,
+    ...endpoint.parameters.query,
+    ...endpoint.parameters.header,
+    ...endpoint.parameters.cookie,
+  ];
+  if (params.length > 0) {
+    lines.push("", "Parameters:");
+    for (const p of params) {
+      lines.push(`- \`${p.name}\` (${p.in}, ${schemaType(p.schema)}${p.required ? ", required" : ""})${p.description ? `: ${p.description}` : ""}`);
+    }
+  }
+
+  if (endpoint.requestBody) {
+    for (const [contentType, body] of Object.entries(endpoint.requestBody.content)) {
+      lines.push("", `Request body (${contentType}${body.schemaName ? `, schema ${body.schemaName}` : ""}):`);
+      lines.push(...describeFields(body.schema));
+    }
+  }
+
+  lines.push("", "Responses:");
+  for (const [status, response] of Object.entries(endpoint.responses)) {
+    const contentTypes = Object.entries(response.content)
+      .map(([ct, body]) => (body.schemaName ? `${ct} (${body.schemaName})` : ct))
+      .join(", ");
+    lines.push(`- ${status}: ${response.description ?? ""}${contentTypes ? ` [${contentTypes}]` : ""}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Finds the doc sections most relevant to some keywords (any of them, ranked by BM25) and returns their text.
+ */
+async function relevantDocSections(keywords: string, service: DuckDBService): Promise<string[]> {
+  const words = (keywords.match(/[A-Za-z0-9]+/g) ?? []).filter((word) => word !== "OR");
+  if (words.length === 0) return [];
+  const query = `source:docs ${words.join(" OR ")}`;
+  const { results } = await handleSearchDocs({ query, limit: 20 }, service);
+  // Line ranges already included per file, so a page and its subsections are not repeated
+  const included = new Map<string, [number, number][]>();
+  const sections: string[] = [];
+  for (const result of results) {
+    if (sections.length >= MAX_DOC_SECTIONS) break;
+    if (!result.resourceUri || result.resourceUri.includes("://endpoints/") || result.resourceUri.includes("://schemas/")) {
+      continue;
+    }
+    const heading = result.section?.split(" > ").pop();
+    try {
+      const doc = await handleGetDoc({ path: result.path, section: heading }, service);
+      const ranges = included.get(doc.path) ?? [];
+      if (ranges.some(([start, end]) => doc.startLine <= end && doc.endLine >= start)) continue;
+      included.set(doc.path, [...ranges, [doc.startLine, doc.endLine]]);
+      sections.push(`### ${doc.path} (${doc.breadcrumb.join(" > ")})\n\n${truncate(doc.content, MAX_SECTION_CHARS)}`);
+    } catch {
+      // Heading not resolvable as a section (e.g. duplicate headings); skip it
+    }
+  }
+  return sections;
+}
+
+/**
+ * Returns fenced code blocks in the given language whose content matches any of the patterns.
+ */
+async function codeExamples(language: string, patterns: string[], service: DuckDBService): Promise<string[]> {
+  const aliases = LANGUAGE_ALIASES[language.toLowerCase()] ?? [language.toLowerCase()];
+  const sql = `
+    SELECT filePath, heading1, heading2, heading3, language, content
+    FROM docs_content
+    WHERE contentType = 'code'
+      AND lower(language) IN (${aliases.map(() => "?").join(", ")})
+      AND (${patterns.map(() => "content ILIKE ?").join(" OR ")})
+    ORDER BY filePath, "order"
+    LIMIT ?;
+  `;
+  const rows = await service.executeQuery(sql, [
+    ...aliases,
+    ...patterns.map((p) => `%${p}%`),
+    MAX_CODE_EXAMPLES,
+  ]);
+  return rows.map((row) => {
+    const crumb = [row.heading1, row.heading2, row.heading3].filter(Boolean).join(" > ");
+    return `From ${row.filePath}${crumb ? ` (${crumb})` : ""}:\n\`\`\`${row.language}\n${row.content}\n\`\`\``;
+  });
+}
+
+function section(title: string, items: string[], emptyText: string): string {
+  return `## ${title}\n\n${items.length > 0 ? items.join("\n\n") : emptyText}`;
+}
+
+async function integrateTtsStreaming(args: Record<string, string>, service: DuckDBService): Promise<GetPromptResult> {
+  const language = args.language;
+  if (!language) {
+    throw new Error("Missing required argument: language");
+  }
+
+  const endpointRows = await service.executeQuery(`
+    SELECT method, apiPath
+    FROM api_spec
+    WHERE type = 'api' AND apiPath ILIKE '%text-to-speech%' AND apiPath ILIKE '%stream%'
+    ORDER BY apiPath, method
+    LIMIT 3;
+  `);
+  const endpoints = await Promise.all(
+    endpointRows.map((row) => handleGetEndpoint({ method: row.method, apiPath: row.apiPath }, service))
+  );
+  const docs = await relevantDocSections("text to speech streaming", service);
+  const examples = await codeExamples(language, ["stream"], service);
+
+  const text = [
+    `Help me integrate ElevenLabs text-to-speech streaming in ${language}.`,
+    "Base the answer only on the documentation and API reference below, which come from the indexed ElevenLabs docs snapshot. Show complete, runnable code, explain how audio chunks are consumed, and call out relevant latency options.",
+    section("Streaming endpoints", endpoints.map(formatEndpoint), "No streaming endpoints found in the index."),
+    section("Relevant documentation", docs, "No matching documentation sections found."),
+    section(`Existing ${language} examples`, examples, `No ${language} streaming examples found in the docs.`),
+  ].join("\n\n");
+
+  return {
+    description: `Integrate text-to-speech streaming in ${language}`,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+async function explainEndpoint(args: Record<string, string>, service: DuckDBService): Promise<GetPromptResult> {
+  if (!args.endpoint) {
+    throw new Error("Missing required argument: endpoint");
+  }
+  const endpoint = await handleGetEndpoint(parseEndpointRef(args.endpoint), service);
+
+  // Docs and examples that mention the path (up to the first path parameter)
+  const staticPath = endpoint.apiPath.split("{")[0].replace(/\/+$/, "");
+  const docs = await relevantDocSections(`${endpoint.summary ?? ""} ${endpoint.apiPath}`, service);
+  const examples = (
+    await Promise.all(["python", "typescript", "curl"].map((language) => codeExamples(language, [staticPath], service)))
+  ).flat();
+
+  const text = [
+    `Explain the ElevenLabs API endpoint ${endpoint.method} ${endpoint.apiPath}: what it does, how to authenticate and call it, what each parameter and body field means, and what it returns.`,
+    "Use only the definition and documentation below, which come from the indexed ElevenLabs docs snapshot.",
+    section("Endpoint definition", [formatEndpoint(endpoint)], ""),
+    section("Related documentation", docs, "No related documentation sections found."),
+    section("Code examples mentioning this endpoint", examples, "No code examples found."),
+  ].join("\n\n");
+
+  return {
+    description: `Explain ${endpoint.method} ${endpoint.apiPath}`,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+// Differences in parameters and request body fields between two endpoints
+function diffEndpoints(from: GetEndpointResult, to: GetEndpointResult): string[] {
+  const paramKeys = (e: GetEndpointResult) =>
+    new Set(Object.values(e.parameters).flat().map((p) => `${p.name} (${p.in})`));
+  const bodyFields = (e: GetEndpointResult) => {
+    const fields = new Set<string>();
+    for (const body of Object.values(e.requestBody?.content ?? {})) {
+      const required = new Set<string>(body.schema?.required || []);
+      for (const name of Object.keys(body.schema?.properties ?? {})) {
+        fields.add(required.has(name) ? `${name} (required)` : name);
+      }
+    }
+    return fields;
+  };
+
+  const lines: string[] = [];
+  const compare = (label: string, before: Set<string>, after: Set<string>) => {
+    const removed = [...before].filter((k) => !after.has(k));
+    const added = [...after].filter((k) => !before.has(k));
+    if (removed.length > 0) lines.push(`- ${label} only in the old endpoint: ${removed.join(", ")}`);
+    if (added.length > 0) lines.push(`- ${label} only in the new endpoint: ${added.join(", ")}`);
+  };
+  if (from.method !== to.method) lines.push(`- Method changes from ${from.method} to ${to.method}`);
+  compare("Parameters", paramKeys(from), paramKeys(to));
+  compare("Request body fields", bodyFields(from), bodyFields(to));
+  compare("Response status codes", new Set(Object.keys(from.responses)), new Set(Object.keys(to.responses)));
+  return lines;
+}
+
+async function migrateEndpoint(args: Record<string, string>, service: DuckDBService): Promise<GetPromptResult> {
+  if (!args.from || !args.to) {
+    throw new Error("Missing required arguments: from, to");
+  }
+  const from = await handleGetEndpoint(parseEndpointRef(args.from), service);
+  const to = await handleGetEndpoint(parseEndpointRef(args.to), service);
+  const differences = diffEndpoints(from, to);
+
+  const text = [
+    `Help me migrate from ${from.method} ${from.apiPath} to ${to.method} ${to.apiPath} in the ElevenLabs API.`,
+    "List the code changes needed (URL, parameters, request body and response handling) and any behavior differences. Use only the definitions below, which come from the indexed ElevenLabs docs snapshot.",
+    section("Current endpoint", [formatEndpoint(from)], ""),
+    section("Target endpoint", [formatEndpoint(to)], ""),
+    section("Differences", differences.length > 0 ? [differences.join("\n")] : [], "No differences found in parameters, request body fields or response status codes."),
+  ].join("\n\n");
+
+  return {
+    description: `Migrate from ${from.method} ${from.apiPath} to ${to.method} ${to.apiPath}`,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+export async function handleGetPrompt(
+  promptName: string,
+  args: Record<string, string>,
+  service: DuckDBService
+): Promise<GetPromptResult> {
+  switch (promptName) {
+    case "integrate_tts_streaming":
+      return integrateTtsStreaming(args, service);
+    case "explain_endpoint":
+      return explainEndpoint(args, service);
+    case "migrate_endpoint":
+      return migrateEndpoint(args, service);
+    default:
+      throw new Error(`Unknown prompt: ${promptName}`);
+  }
+}
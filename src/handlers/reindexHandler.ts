@@ -0,0 +1,126 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import { DuckDBService } from "../services/DuckDBService.js";
+import { logger } from "../services/Logger.js";
+import { ProgressCallback, ReindexResult } from "../types/interfaces.js";
+import { handleIndexInfo } from "./indexInfoHandler.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// From dist/src/handlers, as in DuckDBService
+const PROJECT_ROOT = path.resolve(__dirname, "../../../");
+const ETL_SCRIPT = path.join(PROJECT_ROOT, "etl/run-etl.mjs");
+
+// ETL log lines that start a step, reported as progress
+const ETL_STEPS = [
+  "Parsing API specification files",
+  "Parsing Markdown/MDX files",
+  "Parsing docs navigation",
+  "Building search vocabulary",
+  "ETL process completed",
+];
+// The ETL steps, then validating and swapping in the new data
+const TOTAL_STEPS = ETL_STEPS.length + 2;
+// ETL output kept for the error message when it fails
+const OUTPUT_TAIL_LINES = 20;
+// DATA_DIR files the ETL reads from its output directory to decide whether to keep the previous API snapshot
+const SEEDED_FILES = ["api_spec.parquet", "api_spec.previous.parquet", "index_metadata.parquet"];
+
+let running = false;
+
+// Runs the ETL into outputDir, calling onStep as it reaches each step
+function runEtl(outputDir: string, onStep: (step: string) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [ETL_SCRIPT], {
+      cwd: PROJECT_ROOT,
+      env: { ...process.env, PARQUET_OUTPUT_DIR: outputDir },
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const tail: string[] = [];
+    // The parsing steps repeat once per docs source; each step counts once
+    const reached = new Set<string>();
+    const onLine = (line: string) => {
+      logger.debug(`[etl] ${line}`);
+      tail.push(line);
+      if (tail.length > OUTPUT_TAIL_LINES) tail.shift();
+      const step = ETL_STEPS.find((prefix) => line.startsWith(prefix));
+      if (step && !reached.has(step)) {
+        reached.add(step);
+        onStep(step);
+      }
+    };
+    createInterface({ input: child.stdout }).on("line", onLine);
+    createInterface({ input: child.stderr }).on("line", onLine);
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ETL failed with exit code ${code}; the current index stays in service. Last output:\n${tail.join("\n")}`));
+      }
+    });
+  });
+}
+
+/**
+ * Rebuilds the index from the local docs submodule (DOCS_SUBMODULE_PATH) without a restart.
+ * The ETL runs in a child process and writes to a staging directory inside DATA_DIR; its files
+ * replace the current ones only if they load and validate (see DuckDBService.reload).
+ * Progress goes to the log and, when the client asked for it, to progress notifications.
+ * Only available with ENABLE_REINDEX=true, and one reindex runs at a time.
+ */
+export async function handleReindex(service: DuckDBService, onProgress?: ProgressCallback): Promise<ReindexResult> {
+  if (process.env.ENABLE_REINDEX !== "true") {
+    throw new Error("elevenlabs_reindex is disabled. Start the server with ENABLE_REINDEX=true to allow it.");
+  }
+  if (running) {
+    throw new Error("A reindex is already running.");
+  }
+  running = true;
+  const startedAt = Date.now();
+  let progress = 0;
+  const step = (label: string) => {
+    progress++;
+    logger.info(`Reindex step ${progress}/${TOTAL_STEPS}: ${label}`);
+    onProgress?.(progress, TOTAL_STEPS);
+  };
+
+  let stagingDir: string | null = null;
+  try {
+    const previous = await service.getIndexMetadata();
+    stagingDir = await fs.mkdtemp(path.join(service.getDataDir(), ".reindex-"));
+    // Seed the current API snapshot, which the ETL keeps as api_spec.previous.parquet, with the metadata
+    // and previous snapshot it is compared against: an unchanged spec keeps the previous snapshot
+    for (const fileName of SEEDED_FILES) {
+      const source = path.join(service.getDataDir(), fileName);
+      try {
+        const { atime, mtime } = await fs.stat(source);
+        await fs.copyFile(source, path.join(stagingDir, fileName));
+        await fs.utimes(path.join(stagingDir, fileName), atime, mtime);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+
+    await runEtl(stagingDir, step);
+    step("Validating and loading the new data");
+    try {
+      await service.reload(stagingDir);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`The rebuilt index was not swapped in, the current index stays in service: ${reason}`);
+    }
+    step("Serving the new data");
+
+    return {
+      previousDocsCommitSha: previous?.docsCommitSha ?? null,
+      index: await handleIndexInfo(service),
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    running = false;
+    if (stagingDir) await fs.rm(stagingDir, { recursive: true, force: true });
+  }
+}
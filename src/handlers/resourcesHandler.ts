@@ -0,0 +1,174 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import { ListResourcesArgs, ListResourcesResult, ReadResourceResult } from "../types/interfaces.js";
+import { handleGetEndpoint } from "./getEndpointHandler.js";
+
+const URI_SCHEME = "elevenlabs-docs://";
+const SCHEMAS_PREFIX = `${URI_SCHEME}schemas/`;
+const ENDPOINTS_PREFIX = `${URI_SCHEME}endpoints/`;
+const RESOURCES_PAGE_SIZE = 500;
+
+// Resource URI helpers, shared with search results so follow-up reads are one step
+
+export function docResourceUri(filePath: string): string {
+  return `${URI_SCHEME}${filePath.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+export function schemaResourceUri(schemaName: string): string {
+  return `${SCHEMAS_PREFIX}${encodeURIComponent(schemaName)}`;
+}
+
+export function endpointResourceUri(method: string, apiPath: string): string {
+  const segments = apiPath.replace(/^\/+/, "").split("/").map(encodeURIComponent);
+  return `${ENDPOINTS_PREFIX}${method.toUpperCase()}/${segments.join("/")}`;
+}
+
+/**
+ * Resource URI for a search result row: an endpoint for API operations, a schema for
+ * named schemas, and the document for markdown rows.
+ */
+export function resourceUriForRow(row: Record<string, any>): string | undefined {
+  if (row.sourceType === "markdown") {
+    return docResourceUri(row.filePath);
+  }
+  if (row.type === "api" && row.apiPath && row.method) {
+    return endpointResourceUri(row.method, row.apiPath);
+  }
+  if (row.type === "schema" && row.summary) {
+    return schemaResourceUri(row.summary);
+  }
+  return undefined;
+}
+
+function mimeTypeForDoc(filePath: string): string {
+  return /\.txt$/i.test(filePath) ? "text/plain" : "text/markdown";
+}
+
+export const resourceTemplates = [
+  {
+    uriTemplate: `${URI_SCHEME}{+filePath}`,
+    name: "ElevenLabs documentation page",
+    description: "A markdown/MDX page from the docs, by its path (e.g. fern/docs/pages/overview.mdx)",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: `${SCHEMAS_PREFIX}{schemaName}`,
+    name: "ElevenLabs API schema",
+    description: "A dereferenced JSON schema from the API spec, by name (e.g. GetConversationResponseModel)",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: `${ENDPOINTS_PREFIX}{method}/{+apiPath}`,
+    name: "ElevenLabs API endpoint",
+    description: "The complete description of an API operation (e.g. POST/v1/text-to-speech/{voice_id})",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * Lists every indexed doc page, named schema and endpoint as a resource.
+ * The cursor is an opaque offset into that stable, ordered list.
+ */
+export async function handleListResources(
+  args: ListResourcesArgs,
+  service: DuckDBService
+): Promise<ListResourcesResult> {
+  let offset = 0;
+  if (args.cursor) {
+    offset = Number(Buffer.from(args.cursor, "base64url").toString("utf8"));
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor: ${args.cursor}`);
+    }
+  }
+
+  const sql = `
+    SELECT * FROM (
+      SELECT 0 AS kind, filePath AS sortKey, filePath, NULL AS name, NULL AS method, NULL AS apiPath, title AS description
+      FROM docs_files
+      UNION ALL
+      SELECT 1 AS kind, summary AS sortKey, NULL, summary, NULL, NULL, any_value(description)
+      FROM api_spec
+      WHERE type = 'schema' AND summary IS NOT NULL
+      GROUP BY summary
+      UNION ALL
+      SELECT 2 AS kind, apiPath || ' ' || method AS sortKey, NULL, summary, method, apiPath, description
+      FROM api_spec
+      WHERE type = 'api'
+    )
+    ORDER BY kind, sortKey
+    LIMIT ? OFFSET ?;
+  `;
+  // Fetch one extra row to know whether there is a next page
+  const rows = await service.executeQuery(sql, [RESOURCES_PAGE_SIZE + 1, offset]);
+  const page = rows.slice(0, RESOURCES_PAGE_SIZE);
+
+  const resources = page.map((row) => {
+    if (row.kind === 0) {
+      return {
+        uri: docResourceUri(row.filePath),
+        name: row.filePath,
+        description: row.description ?? undefined,
+        mimeType: mimeTypeForDoc(row.filePath),
+      };
+    }
+    if (row.kind === 1) {
+      return {
+        uri: schemaResourceUri(row.name),
+        name: row.name,
+        description: row.description ?? undefined,
+        mimeType: "application/json",
+      };
+    }
+    return {
+      uri: endpointResourceUri(row.method, row.apiPath),
+      name: `${row.method} ${row.apiPath}`,
+      description: row.name ?? undefined,
+      mimeType: "application/json",
+    };
+  });
+
+  const result: ListResourcesResult = { resources };
+  if (rows.length > RESOURCES_PAGE_SIZE) {
+    result.nextCursor = Buffer.from(String(offset + RESOURCES_PAGE_SIZE), "utf8").toString("base64url");
+  }
+  return result;
+}
+
+export async function handleReadResource(
+  uri: string,
+  service: DuckDBService
+): Promise<ReadResourceResult> {
+  if (!uri.startsWith(URI_SCHEME)) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+
+  if (uri.startsWith(SCHEMAS_PREFIX)) {
+    const schemaName = decodeURIComponent(uri.slice(SCHEMAS_PREFIX.length));
+    const row = await service.executeQueryFirstRow(
+      `SELECT schemaDefinition FROM api_spec WHERE type = 'schema' AND summary = ? ORDER BY rowId;`,
+      [schemaName]
+    );
+    if (row?.schemaDefinition) {
+      return { contents: [{ uri, mimeType: "application/json", text: row.schemaDefinition }] };
+    }
+  }
+
+  if (uri.startsWith(ENDPOINTS_PREFIX)) {
+    const [method, ...segments] = uri.slice(ENDPOINTS_PREFIX.length).split("/");
+    if (method && segments.length > 0) {
+      const apiPath = "/" + segments.map(decodeURIComponent).join("/");
+      const endpoint = await handleGetEndpoint({ method, apiPath }, service);
+      return { contents: [{ uri, mimeType: "application/json", text: JSON.stringify(endpoint, null, 2) }] };
+    }
+  }
+
+  // Anything else is a document path
+  const filePath = uri.slice(URI_SCHEME.length).split("/").map(decodeURIComponent).join("/");
+  const file = await service.executeQueryFirstRow(
+    `SELECT fullContent FROM docs_files WHERE filePath = ?;`,
+    [filePath]
+  );
+  if (!file) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+  return { contents: [{ uri, mimeType: mimeTypeForDoc(filePath), text: file.fullContent ?? "" }] };
+}
@@ -0,0 +1,177 @@
+import { DuckDBService } from "../services/DuckDBService.js";
+import {
+  SchemaUsage,
+  SchemaUsageArgs,
+  SchemaUsageChannel,
+  SchemaUsageEndpoint,
+  SchemaUsageResult,
+  SchemaUsageSchema,
+} from "../types/interfaces.js";
+import { findSchemaRow } from "./describeSchemaHandler.js";
+import { findOperationRow } from "./getEndpointHandler.js";
+import { endpointResourceUri, schemaResourceUri } from "./resourcesHandler.js";
+
+// usedBy entries as written by the ETL (older builds only have apiPath, method and operationId).
+// WebSocket message payloads have the channel address instead of apiPath and method.
+interface UsedByEntry {
+  apiPath?: string;
+  method?: string;
+  operationId?: string | null;
+  channel?: string;
+  direction?: SchemaUsage["direction"];
+  message?: string;
+  role?: SchemaUsage["role"];
+  status?: string;
+  contentType?: string;
+  parameter?: string;
+  in?: string;
+  nested?: boolean;
+  fieldPath?: string | null;
+  viaSchema?: string | null;
+}
+
+function parseUsedBy(value: string | null): UsedByEntry[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toUsage(entry: UsedByEntry): SchemaUsage {
+  const usage: SchemaUsage = { role: entry.role ?? "unknown", nested: entry.nested === true };
+  if (entry.status) usage.status = entry.status;
+  if (entry.contentType) usage.contentType = entry.contentType;
+  if (entry.parameter) usage.parameter = entry.parameter;
+  if (entry.in) usage.in = entry.in;
+  if (entry.direction) usage.direction = entry.direction;
+  if (entry.message) usage.message = entry.message;
+  if (entry.fieldPath) usage.fieldPath = entry.fieldPath;
+  if (entry.viaSchema) usage.viaSchema = entry.viaSchema;
+  return usage;
+}
+
+// Direct uses first, then request body before responses before parameters
+const ROLE_ORDER: Record<SchemaUsage["role"], number> = { requestBody: 0, response: 1, parameter: 2, message: 3, unknown: 4 };
+
+function compareUsages(a: SchemaUsage, b: SchemaUsage): number {
+  return Number(a.nested) - Number(b.nested) ||
+    ROLE_ORDER[a.role] - ROLE_ORDER[b.role] ||
+    (a.status ?? "").localeCompare(b.status ?? "");
+}
+
+/**
+ * Endpoints that take or return a schema, and WebSocket channels whose messages carry it,
+ * directly or nested inside another schema.
+ */
+async function usageForSchema(args: SchemaUsageArgs, service: DuckDBService): Promise<SchemaUsageResult> {
+  const row = await findSchemaRow(args.schemaName!, service);
+  const includeNested = args.includeNested ?? true;
+
+  const endpoints = new Map<string, SchemaUsageEndpoint>();
+  const channels = new Map<string, SchemaUsageChannel>();
+  for (const entry of parseUsedBy(row.usedBy)) {
+    if (!includeNested && entry.nested) continue;
+    if (entry.channel) {
+      let channel = channels.get(entry.channel);
+      if (!channel) {
+        channel = { address: entry.channel, usages: [] };
+        channels.set(entry.channel, channel);
+      }
+      channel.usages.push(toUsage(entry));
+      continue;
+    }
+    if (!entry.apiPath || !entry.method) continue;
+    const key = `${entry.method} ${entry.apiPath}`;
+    let endpoint = endpoints.get(key);
+    if (!endpoint) {
+      endpoint = {
+        method: entry.method,
+        apiPath: entry.apiPath,
+        operationId: entry.operationId ?? null,
+        usages: [],
+        resourceUri: endpointResourceUri(entry.method, entry.apiPath),
+      };
+      endpoints.set(key, endpoint);
+    }
+    endpoint.usages.push(toUsage(entry));
+  }
+
+  const sorted = [...endpoints.values()].sort(
+    (a, b) => a.apiPath.localeCompare(b.apiPath) || a.method.localeCompare(b.method)
+  );
+  for (const endpoint of sorted) endpoint.usages.sort(compareUsages);
+  const sortedChannels = [...channels.values()].sort((a, b) => a.address.localeCompare(b.address));
+  for (const channel of sortedChannels) channel.usages.sort(compareUsages);
+
+  const result: SchemaUsageResult = {
+    direction: "schema",
+    schemaName: row.summary,
+    endpoints: sorted,
+  };
+  if (sortedChannels.length > 0) result.channels = sortedChannels;
+  return result;
+}
+
+/**
+ * Named schemas an endpoint touches: request body, responses and parameters, including nested schemas.
+ */
+async function usageForEndpoint(args: SchemaUsageArgs, service: DuckDBService): Promise<SchemaUsageResult> {
+  const operation = await findOperationRow(args, service);
+  const includeNested = args.includeNested ?? true;
+
+  // Pre-filter on the serialized apiPath, then match method and path exactly after parsing
+  const sql = `
+    SELECT summary, usedBy
+    FROM api_spec
+    WHERE type = 'schema' AND summary IS NOT NULL AND contains(usedBy, ?)
+    ORDER BY summary, rowId;
+  `;
+  const rows = await service.executeQuery(sql, [`"apiPath":${JSON.stringify(operation.apiPath)}`]);
+
+  const schemas = new Map<string, SchemaUsageSchema>();
+  for (const row of rows) {
+    const usages = parseUsedBy(row.usedBy)
+      .filter((entry) => entry.apiPath === operation.apiPath && entry.method === operation.method)
+      .filter((entry) => includeNested || !entry.nested)
+      .map(toUsage);
+    if (usages.length === 0 || schemas.has(row.summary)) continue;
+    schemas.set(row.summary, {
+      schemaName: row.summary,
+      usages: usages.sort(compareUsages),
+      resourceUri: schemaResourceUri(row.summary),
+    });
+  }
+
+  // Directly used schemas first, then nested ones, each alphabetically
+  const sorted = [...schemas.values()].sort(
+    (a, b) => compareUsages(a.usages[0], b.usages[0]) || a.schemaName.localeCompare(b.schemaName)
+  );
+
+  return {
+    direction: "endpoint",
+    method: operation.method,
+    apiPath: operation.apiPath,
+    operationId: operation.operationId ?? null,
+    schemas: sorted,
+  };
+}
+
+export async function handleSchemaUsage(
+  args: SchemaUsageArgs,
+  service: DuckDBService
+): Promise<SchemaUsageResult> {
+  const hasEndpoint = !!(args.apiPath || args.operationId);
+  if (args.schemaName && hasEndpoint) {
+    throw new Error("Specify either schemaName or an endpoint (method + apiPath, or operationId), not both");
+  }
+  if (args.schemaName) {
+    return usageForSchema(args, service);
+  }
+  if (hasEndpoint) {
+    return usageForEndpoint(args, service);
+  }
+  throw new Error("Missing required argument: schemaName, or an endpoint (method + apiPath, or operationId)");
+}
@@ -1,114 +1,662 @@
+import { createHash } from "node:crypto";
 import { DuckDBService } from "../services/DuckDBService.js"; // Changed import
-import { SearchDocsArgs, SearchDocsResultItem } from "../types/interfaces.js"; // Corrected import to SearchDocsResultItem
+import { SearchDocsArgs, SearchDocsResult, SearchDocsResultItem, SearchSuggestion } from "../types/interfaces.js"; // Corrected import to SearchDocsResultItem
+import { resourceUriForRow } from "./resourcesHandler.js";
 
-function extractSnippet(
-  content: string,
-  query: string
-): { snippet: string; section?: string; lineNumber?: number } {
-  const lines = content.split(/\r?\n/);
-  const lowerQuery = query.toLowerCase();
-  let matchLine = -1;
-
-  // Find the first line containing the query (case-insensitive)
-  for (let i = 0; i < lines.length; i++) {
-    if (lines[i].toLowerCase().includes(lowerQuery)) {
-      matchLine = i;
-      break;
+// BM25 parameters: term-frequency saturation and document-length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+function roundScore(score: number): number {
+  return Math.round(Number(score) * 10000) / 10000;
+}
+
+// Results per page (see limit)
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+// Neighbouring blocks included on each side of a markdown match (see contextBlocks)
+const DEFAULT_CONTEXT_BLOCKS = 1;
+const MAX_CONTEXT_BLOCKS = 5;
+// Longest snippet taken from an API spec row's text
+const MAX_TEXT_SNIPPET_CHARS = 400;
+
+/**
+ * Query terms, tokenized the same way as the search index.
+ */
+function queryTerms(query: string): string[] {
+  const tokens = query.toLowerCase().match(new RegExp(DuckDBService.SEARCH_TOKEN_PATTERN, "g")) ?? [];
+  return [...new Set(tokens)];
+}
+
+// True when a word (e.g. "optimize_streaming_latency") contains one of the query terms as a token
+function matchesTerm(word: string, terms: Set<string>): boolean {
+  const tokens = word.toLowerCase().match(new RegExp(DuckDBService.SEARCH_TOKEN_PATTERN, "g")) ?? [];
+  return tokens.some((token) => terms.has(token));
+}
+
+/**
+ * Wraps every word containing a query term in **bold**. Identifiers are bolded whole
+ * (snake_case is tokenized into words by the index), and inline code spans that contain
+ * a term are bolded as a whole, so their contents stay unchanged.
+ */
+function highlight(text: string, terms: string[]): string {
+  if (terms.length === 0) return text;
+  const termSet = new Set(terms);
+  return text
+    .split(/(`[^`\n]+`)/)
+    .map((part) => {
+      if (part.startsWith("`") && part.endsWith("`") && part.length > 1) {
+        return matchesTerm(part, termSet) ? `**${part}**` : part;
+      }
+      return part.replace(/[A-Za-z0-9_]+/g, (word) => (matchesTerm(word, termSet) ? `**${word}**` : word));
+    })
+    .join("");
+}
+
+/**
+ * Highlighted excerpt of free text (API spec rows): the whole text when short,
+ * otherwise a window around the first matching term.
+ */
+function buildTextSnippet(content: string | null, terms: string[]): string {
+  const text = (content ?? "").trim();
+  if (text.length <= MAX_TEXT_SNIPPET_CHARS) return highlight(text, terms);
+
+  const termSet = new Set(terms);
+  const firstMatch = [...text.matchAll(/[A-Za-z0-9_]+/g)].find((m) => matchesTerm(m[0], termSet))?.index ?? 0;
+  const start = Math.max(0, firstMatch - MAX_TEXT_SNIPPET_CHARS / 4);
+  const end = Math.min(text.length, start + MAX_TEXT_SNIPPET_CHARS);
+  const excerpt = text.slice(start, end);
+  return `${start > 0 ? "..." : ""}${highlight(excerpt, terms)}${end < text.length ? "..." : ""}`;
+}
+
+// Docs pages are titled by their frontmatter title (or first heading), API rows by their summary or schema name
+function rowTitle(row: Record<string, any>): string | undefined {
+  if (row.sourceType === "markdown") return row.title ?? row.heading1 ?? undefined;
+  return row.summary ?? undefined;
+}
+
+// Endpoints and WebSocket channels are labelled by their path, models by their name
+function apiSection(row: Record<string, any>): string | undefined {
+  if (row.type === "channel") return `${row.apiPath} (websocket)`;
+  return row.apiPath ? `${row.apiPath} (${row.method})` : row.summary;
+}
+
+/**
+ * Snippet for a markdown match built from the matching block and its neighbours in the same file.
+ * Code blocks are kept whole in their language fence (and not highlighted); prose blocks have every
+ * query term highlighted. A heading line is inserted where the window crosses into another section.
+ */
+async function buildMarkdownSnippet(
+  row: Record<string, any>,
+  terms: string[],
+  contextBlocks: number,
+  service: DuckDBService
+): Promise<string> {
+  const sql = `
+    SELECT "order", lineNumber, heading1, heading2, heading3, contentType, language, content
+    FROM docs_content
+    WHERE filePath = ? AND "order" BETWEEN ? AND ?
+    ORDER BY "order";
+  `;
+  const blocks = row.blockOrder == null
+    ? [row]
+    : await service.executeQuery(sql, [row.filePath, row.blockOrder - contextBlocks, row.blockOrder + contextBlocks]);
+
+  const parts: string[] = [];
+  let previous: Record<string, any> | undefined;
+  for (const block of blocks) {
+    // List items and blockquotes are indexed along with the paragraphs inside them; skip the repeat
+    if (previous && block.contentType !== "code" && previous.content?.includes(block.content)) {
+      continue;
+    }
+    const headings = [block.heading1, block.heading2, block.heading3];
+    if (previous) {
+      const level = headings.findIndex((h, i) => h !== [previous!.heading1, previous!.heading2, previous!.heading3][i]);
+      const deepest = headings.map((h, i) => ({ h, i })).filter(({ h }) => h).pop();
+      if (level !== -1 && deepest) {
+        parts.push(`${"#".repeat(deepest.i + 1)} ${highlight(deepest.h, terms)}`);
+      }
     }
+    if (block.contentType === "code") {
+      parts.push(`\`\`\`${block.language ?? ""}\n${block.content}\n\`\`\``);
+    } else {
+      parts.push(highlight(block.content ?? "", terms));
+    }
+    previous = block;
   }
+  return parts.join("\n\n");
+}
+
+// Field filters accepted in queries, e.g. method:POST or heading:"Voice settings"
+const QUERY_FIELDS = ["method", "path", "type", "source", "lang", "heading", "file"] as const;
+type QueryField = (typeof QUERY_FIELDS)[number];
+
+const HTTP_METHODS = ["GET", "PUT", "POST", "DELETE", "OPTIONS", "HEAD", "PATCH", "TRACE"];
+// Values of source: that select a sourceType; any other value names an indexed docs source
+const SOURCE_ALIASES: Record<string, "api" | "markdown"> = { api: "api", spec: "api", docs: "markdown", markdown: "markdown" };
+
+const QUERY_SYNTAX_HELP =
+  'Syntax: words are ANDed, "quoted phrase", word OR word, -exclude, ' +
+  `and field filters ${QUERY_FIELDS.map((f) => `${f}:`).join(" ")}`;
+
+// A term or phrase; a phrase matches its tokens consecutively
+interface QueryAtom {
+  text: string;
+  tokens: string[];
+}
+
+interface QueryFilter {
+  field: QueryField;
+  value: string;
+  negated: boolean;
+}
+
+/**
+ * A parsed query: every group must match (each group is one or more atoms joined by OR),
+ * no exclusion may match, and the filters restrict which rows are eligible.
+ */
+interface ParsedQuery {
+  groups: QueryAtom[][];
+  exclusions: QueryAtom[];
+  filters: QueryFilter[];
+}
 
-  // If not found, just return the first few lines
-  if (matchLine === -1) {
-    return { snippet: lines.slice(0, 3).join('\n') };
+function queryError(message: string): never {
+  throw new Error(`Invalid query: ${message}. ${QUERY_SYNTAX_HELP}`);
+}
+
+function makeAtom(text: string): QueryAtom {
+  const tokens = text.toLowerCase().match(new RegExp(DuckDBService.SEARCH_TOKEN_PATTERN, "g")) ?? [];
+  if (tokens.length === 0) {
+    queryError(`"${text}" has no searchable letters or digits`);
   }
+  return { text, tokens };
+}
 
-  // Only return the matching line as the snippet
-  const snippet = lines[matchLine];
-
-  // Try to find the nearest preceding heading (Markdown or YAML)
-  let section: string | undefined = undefined;
-  for (let i = matchLine; i >= 0; i--) {
-    // Markdown heading
-    const mdMatch = lines[i].match(/^#+\s+(.*)/);
-    if (mdMatch) {
-      section = mdMatch[1].trim();
-      break;
+function makeFilter(field: QueryField, rawValue: string, negated: boolean): QueryFilter {
+  const value = rawValue.trim();
+  if (!value) {
+    queryError(`${field}: needs a value`);
+  }
+  switch (field) {
+    case "method": {
+      const method = value.toUpperCase();
+      if (!HTTP_METHODS.includes(method)) {
+        queryError(`method:${value} is not an HTTP method (expected one of ${HTTP_METHODS.join(", ")})`);
+      }
+      return { field, value: method, negated };
     }
-    // YAML top-level key (for .yml/.yaml)
-    const yamlMatch = lines[i].match(/^([a-zA-Z0-9_-]+):\s*$/);
-    if (yamlMatch) {
-      section = yamlMatch[1].trim();
-      break;
+    case "type": {
+      const type = value.toLowerCase();
+      if (type !== "api" && type !== "schema" && type !== "channel") {
+        queryError(
+          `type:${value} is not supported (expected type:api for endpoints, type:schema for models or type:channel for WebSocket channels)`,
+        );
+      }
+      return { field, value: type, negated };
     }
+    case "source":
+      return { field, value: SOURCE_ALIASES[value.toLowerCase()] ?? value.toLowerCase(), negated };
+    case "lang":
+      return { field, value: value.toLowerCase(), negated };
+    default:
+      return { field, value, negated };
   }
+}
 
-  return { snippet, section, lineNumber: matchLine + 1 };
+// Reads a double-quoted string starting at `start`; returns its contents and the index after the closing quote
+function readQuoted(query: string, start: number): { value: string; next: number } {
+  const end = query.indexOf('"', start + 1);
+  if (end === -1) {
+    queryError(`unclosed quote at position ${start + 1}`);
+  }
+  return { value: query.slice(start + 1, end), next: end + 1 };
 }
 
-// Changed client to service: DuckDBService and adjusted args order
+/**
+ * Parses the search query syntax:
+ * - words are ANDed; "quoted phrases" match consecutive words
+ * - OR (uppercase) between two terms or phrases matches either
+ * - -word or -"phrase" excludes rows containing it
+ * - field:value (or field:"quoted value") filters rows; -field:value excludes them.
+ *   Repeating a field matches any of its values; different fields must all match.
+ * URLs such as https://... are kept as plain terms.
+ */
+function parseQuery(query: string): ParsedQuery {
+  type Item =
+    | { kind: "atom"; atom: QueryAtom; negated: boolean }
+    | { kind: "filter"; filter: QueryFilter }
+    | { kind: "or" };
+  const items: Item[] = [];
+
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    let negated = false;
+    if (query[i] === "-" && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negated = true;
+      i++;
+    }
+    if (query[i] === '"') {
+      const { value, next } = readQuoted(query, i);
+      items.push({ kind: "atom", atom: makeAtom(value), negated });
+      i = next;
+      continue;
+    }
+
+    let end = i;
+    while (end < query.length && !/\s/.test(query[end])) end++;
+    const word = query.slice(i, end);
+
+    if (word === "OR" && !negated) {
+      items.push({ kind: "or" });
+      i = end;
+      continue;
+    }
+
+    const field = word.match(/^([A-Za-z]+):(.*)$/);
+    if (field && !/^https?$/i.test(field[1])) {
+      const name = field[1].toLowerCase() as QueryField;
+      if (!QUERY_FIELDS.includes(name)) {
+        queryError(`unknown field "${field[1]}:" (supported fields: ${QUERY_FIELDS.join(", ")})`);
+      }
+      let value = field[2];
+      if (value.startsWith('"')) {
+        const quoted = readQuoted(query, i + field[1].length + 1);
+        value = quoted.value;
+        end = quoted.next;
+      }
+      items.push({ kind: "filter", filter: makeFilter(name, value, negated) });
+      i = end;
+      continue;
+    }
+
+    items.push({ kind: "atom", atom: makeAtom(word), negated });
+    i = end;
+  }
+
+  const parsed: ParsedQuery = { groups: [], exclusions: [], filters: [] };
+  let previous: Item | undefined;
+  for (const item of items) {
+    const afterOr = previous?.kind === "or";
+    if (item.kind === "or") {
+      if (!previous || previous.kind !== "atom" || previous.negated) {
+        queryError(afterOr ? '"OR" cannot follow another "OR"' : '"OR" must come after a term or phrase');
+      }
+    } else if (afterOr && (item.kind !== "atom" || item.negated)) {
+      queryError('"OR" must be followed by a term or phrase, not a filter or exclusion');
+    } else if (item.kind === "filter") {
+      parsed.filters.push(item.filter);
+    } else if (item.negated) {
+      parsed.exclusions.push(item.atom);
+    } else if (afterOr) {
+      parsed.groups[parsed.groups.length - 1].push(item.atom);
+    } else {
+      parsed.groups.push([item.atom]);
+    }
+    previous = item;
+  }
+  if (previous?.kind === "or") {
+    queryError('"OR" at the end of the query must be followed by a term or phrase');
+  }
+  if (parsed.groups.length === 0 && parsed.filters.length === 0) {
+    queryError("the query needs at least one term, phrase or field filter (exclusions alone match nothing)");
+  }
+  return parsed;
+}
+
+// source:<name> filters must name an indexed docs source; the aliases (docs, api, ...) are always valid
+async function checkSourceFilters(filters: QueryFilter[], service: DuckDBService): Promise<void> {
+  const names = filters
+    .filter((f) => f.field === "source" && f.value !== "api" && f.value !== "markdown")
+    .map((f) => f.value);
+  if (names.length === 0) return;
+  const rows = await service.executeQuery(`
+    SELECT source FROM docs_files WHERE source IS NOT NULL
+    UNION
+    SELECT source FROM api_spec WHERE source IS NOT NULL
+    ORDER BY source;
+  `);
+  const indexed = rows.map((row) => row.source as string);
+  const unknown = names.find((name) => !indexed.includes(name));
+  if (unknown) {
+    queryError(`source:${unknown} is not an indexed source (expected source:docs, source:api or one of ${indexed.join(", ")})`);
+  }
+}
+
+/**
+ * SQL condition for one filter on one side of the search (api_spec as `a`, docs_content as `m`).
+ * Filters that do not apply to a side (e.g. method: on docs) exclude that side's rows.
+ */
+function filterCondition(filter: QueryFilter, side: "api" | "markdown"): { sql: string; params: any[] } {
+  const alias = side === "api" ? "a" : "m";
+  const isGlob = /[*?[]/.test(filter.value);
+  switch (filter.field) {
+    case "method":
+      return side === "api" ? { sql: "a.method = ?", params: [filter.value] } : { sql: "FALSE", params: [] };
+    case "path":
+      if (side !== "api") return { sql: "FALSE", params: [] };
+      return isGlob
+        ? { sql: "a.apiPath GLOB ?", params: [filter.value] }
+        : { sql: "starts_with(a.apiPath, ?)", params: [filter.value] };
+    case "type":
+      return side === "api" ? { sql: "a.type = ?", params: [filter.value] } : { sql: "FALSE", params: [] };
+    case "source":
+      if (filter.value === "api" || filter.value === "markdown") {
+        return { sql: side === filter.value ? "TRUE" : "FALSE", params: [] };
+      }
+      return { sql: `${alias}.source = ?`, params: [filter.value] };
+    case "lang":
+      return side === "markdown" ? { sql: "lower(m.language) = ?", params: [filter.value] } : { sql: "FALSE", params: [] };
+    case "heading": {
+      if (side !== "markdown") return { sql: "FALSE", params: [] };
+      const pattern = `%${filter.value}%`;
+      return { sql: "(m.heading1 ILIKE ? OR m.heading2 ILIKE ? OR m.heading3 ILIKE ?)", params: [pattern, pattern, pattern] };
+    }
+    case "file":
+      // Bare names match the file name; values with a slash match the path, anchored anywhere below the root
+      if (filter.value.includes("/")) {
+        return isGlob
+          ? { sql: `(${alias}.filePath GLOB ? OR ${alias}.filePath GLOB ?)`, params: [filter.value, `*/${filter.value}`] }
+          : { sql: `(${alias}.filePath = ? OR ends_with(${alias}.filePath, ?))`, params: [filter.value, `/${filter.value}`] };
+      }
+      return isGlob
+        ? { sql: `${alias}.fileName GLOB ?`, params: [filter.value] }
+        : { sql: `${alias}.fileName = ?`, params: [filter.value] };
+  }
+}
+
+// WHERE clause for one side: values of the same field are ORed, fields are ANDed, negated filters excluded
+function filterClause(filters: QueryFilter[], side: "api" | "markdown"): { sql: string; params: any[] } {
+  const conditions: string[] = [];
+  const params: any[] = [];
+  for (const field of QUERY_FIELDS) {
+    const positive = filters.filter((f) => f.field === field && !f.negated).map((f) => filterCondition(f, side));
+    if (positive.length > 0) {
+      conditions.push(`coalesce(${positive.map((c) => c.sql).join(" OR ")}, FALSE)`);
+      params.push(...positive.flatMap((c) => c.params));
+    }
+    for (const negated of filters.filter((f) => f.field === field && f.negated)) {
+      const condition = filterCondition(negated, side);
+      conditions.push(`NOT coalesce(${condition.sql}, FALSE)`);
+      params.push(...condition.params);
+    }
+  }
+  return { sql: conditions.length > 0 ? conditions.join(" AND ") : "TRUE", params };
+}
+
+/**
+ * Cursors are opaque to clients: the offset of the next page plus a fingerprint of the query,
+ * so a cursor cannot be replayed against a different query.
+ */
+function queryFingerprint(query: string): string {
+  return createHash("sha1").update(query).digest("hex").slice(0, 12);
+}
+
+function encodeCursor(offset: number, query: string): string {
+  return Buffer.from(JSON.stringify({ offset, query: queryFingerprint(query) }), "utf8").toString("base64url");
+}
+
+function decodeCursor(cursor: string, query: string): number {
+  let decoded: any;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  if (!Number.isInteger(decoded?.offset) || decoded.offset < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  if (decoded.query !== queryFingerprint(query)) {
+    throw new Error("Cursor does not belong to this query; repeat the search without a cursor");
+  }
+  return decoded.offset;
+}
+
+/**
+ * Runs a search query whose last two parameters are LIMIT and OFFSET and whose rows carry
+ * totalMatches (count(*) OVER ()). A page past the end has no rows to read the total from,
+ * so the first row is fetched instead.
+ */
+async function fetchPage(
+  sql: string,
+  params: any[],
+  limit: number,
+  offset: number,
+  service: DuckDBService
+): Promise<{ rows: Record<string, any>[]; totalMatches: number }> {
+  const rows = await service.executeQuery(sql, [...params, limit, offset]);
+  if (rows.length > 0 || offset === 0) {
+    return { rows, totalMatches: rows[0]?.totalMatches ?? 0 };
+  }
+  const [first] = await service.executeQuery(sql, [...params, 1, 0]);
+  return { rows, totalMatches: first?.totalMatches ?? 0 };
+}
+
+function pageResult(
+  results: SearchDocsResultItem[],
+  totalMatches: number,
+  offset: number,
+  query: string
+): SearchDocsResult {
+  const result: SearchDocsResult = { results, totalMatches, docsCommitSha: null };
+  if (offset + results.length < totalMatches) {
+    result.nextCursor = encodeCursor(offset + results.length, query);
+  }
+  return result;
+}
+
+// First pages with fewer matches than this get did-you-mean suggestions
+const LOW_RESULT_THRESHOLD = 3;
+const MAX_SUGGESTIONS = 3;
+// Similarity above which a schema or file name counts as close to the query
+const MIN_NAME_SIMILARITY = 0.9;
+
+// Allowed typos for a word of a given length (short words are left alone)
+function maxEdits(length: number): number {
+  if (length < 4) return 0;
+  return length < 8 ? 1 : 2;
+}
+
+// Same normalization as the ETL vocabulary: no case, no underscores or hyphens
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(/[_-]/g, "");
+}
+
+const WORD_PATTERN = /[A-Za-z][A-Za-z0-9]*(?:[_-][A-Za-z0-9]+)*/g;
+
+/**
+ * Spelling corrections from the search_vocabulary table, per query word: an entry with the same
+ * normalized spelling but written differently (Convai -> ConvAI, phonenumber -> phone_number), or
+ * failing that the closest entries within a few edits, most frequent first.
+ */
+async function spellingCorrections(words: string[], service: DuckDBService): Promise<Map<string, string[]>> {
+  const sql = `
+    SELECT w.word, v.term, levenshtein(v.normalized, w.normalized) AS distance
+    FROM (VALUES ${words.map(() => "(?, ?)").join(", ")}) AS w(word, normalized)
+    JOIN search_vocabulary v
+      ON v.normalized = w.normalized
+      OR (abs(length(v.normalized) - length(w.normalized)) <= 2 AND levenshtein(v.normalized, w.normalized) <= 2)
+    QUALIFY row_number() OVER (PARTITION BY w.word ORDER BY distance, v.frequency DESC, v.term) <= ${MAX_SUGGESTIONS}
+    ORDER BY w.word, distance, v.frequency DESC, v.term;
+  `;
+  const rows = await service.executeQuery(sql, words.flatMap((word) => [word, normalizeTerm(word)]));
+
+  const corrections = new Map<string, string[]>();
+  for (const word of words) {
+    const candidates = rows.filter((row) => row.word === word);
+    // A word spelled the way the docs spell it needs no correction
+    if (candidates.some((row) => row.distance === 0 && row.term === word)) continue;
+    const exact = candidates.filter((row) => row.distance === 0);
+    const chosen = exact.length > 0
+      ? exact
+      : candidates.filter((row) => row.distance <= maxEdits(normalizeTerm(word).length));
+    if (chosen.length > 0) corrections.set(word, chosen.map((row) => row.term));
+  }
+  return corrections;
+}
+
+/**
+ * Did-you-mean suggestions for a query with few or no matches: the query with misspelled words
+ * corrected, then schema names and doc file names close to the query text. Filters, OR and
+ * exclusions are kept as written.
+ */
+async function buildSuggestions(query: string, service: DuckDBService): Promise<SearchSuggestion[]> {
+  // Terms and phrases of the query; field filters, exclusions and OR are not corrected
+  const pieces = query.match(/-?(?:[A-Za-z]+:)?"[^"]*"?|\S+/g) ?? [];
+  const isCorrectable = (piece: string) =>
+    piece !== "OR" && !piece.startsWith("-") && !/^[A-Za-z]+:/.test(piece.replace(/^https?:/i, ""));
+  const words = [...new Set(pieces.filter(isCorrectable).flatMap((piece) => piece.match(WORD_PATTERN) ?? []))]
+    .filter((word) => word.length >= 3);
+
+  const suggestions: SearchSuggestion[] = [];
+  if (words.length > 0) {
+    const corrections = await spellingCorrections(words, service);
+    for (let i = 0; i < MAX_SUGGESTIONS; i++) {
+      const corrected = pieces
+        .map((piece) =>
+          isCorrectable(piece)
+            ? piece.replace(WORD_PATTERN, (word) => {
+                const options = corrections.get(word);
+                return options ? options[Math.min(i, options.length - 1)] : word;
+              })
+            : piece
+        )
+        .join(" ");
+      if (corrected !== query && !suggestions.some((s) => s.query === corrected)) {
+        suggestions.push({ query: corrected, kind: "spelling" });
+      }
+    }
+  }
+
+  // Names are compared with the query's words run together, e.g. "phone number response" ~ PhoneNumberResponseModel
+  const compact = normalizeTerm(words.join(""));
+  if (compact.length >= 4) {
+    const namesSql = `
+      SELECT name, kind
+      FROM (
+        SELECT DISTINCT summary AS name, 'schema' AS kind,
+          jaro_winkler_similarity(lower(summary), ?) AS similarity
+        FROM api_spec
+        WHERE type = 'schema' AND summary IS NOT NULL
+        UNION ALL
+        SELECT fileName AS name, 'file' AS kind,
+          jaro_winkler_similarity(regexp_replace(lower(fileName), '\\.(mdx?|txt)$', ''), ?) AS similarity
+        FROM docs_files
+      )
+      WHERE similarity >= ${MIN_NAME_SIMILARITY}
+      ORDER BY similarity DESC, name
+      LIMIT ${MAX_SUGGESTIONS};
+    `;
+    const names = await service.executeQuery(namesSql, [compact, compact]);
+    for (const row of names) {
+      if (row.name !== query && !suggestions.some((s) => s.query === row.name)) {
+        suggestions.push({ query: row.name, kind: row.kind });
+      }
+    }
+  }
+  return suggestions;
+}
+
+// Adds suggestions to the first page of a search that found little
+async function withSuggestions(
+  result: SearchDocsResult,
+  offset: number,
+  query: string,
+  service: DuckDBService
+): Promise<SearchDocsResult> {
+  if (offset > 0 || result.totalMatches >= LOW_RESULT_THRESHOLD) return result;
+  const suggestions = await buildSuggestions(query, service);
+  return suggestions.length > 0 ? { ...result, suggestions } : result;
+}
+
+// Every response names the docs commit it was answered from, so answers can be tied to a docs version
 export async function handleSearchDocs(
   args: SearchDocsArgs,
   service: DuckDBService
-): Promise<any> { // Keep Promise<any> for now, refine later if needed
+): Promise<SearchDocsResult> {
+  const [result, metadata] = await Promise.all([searchDocs(args, service), service.getIndexMetadata()]);
+  return { ...result, docsCommitSha: metadata?.docsCommitSha ?? null };
+}
+
+// Changed client to service: DuckDBService and adjusted args order
+async function searchDocs(
+  args: SearchDocsArgs,
+  service: DuckDBService
+): Promise<SearchDocsResult> {
   if (!args.query) {
     throw new Error("Missing required argument: query");
   }
 
-  const { query, limit = 10 } = args; // Use args from tool definition
-  const fuzzyThreshold = 2; // Lower threshold for per-word fuzzy matching
+  const { query } = args; // Use args from tool definition
+  const limit = Math.min(Math.max(Math.floor(args.limit ?? DEFAULT_LIMIT), 1), MAX_LIMIT);
+  const offset = args.cursor ? decodeCursor(args.cursor, query) : 0;
+  const contextBlocks = Math.min(Math.max(Math.floor(args.contextBlocks ?? DEFAULT_CONTEXT_BLOCKS), 0), MAX_CONTEXT_BLOCKS);
+  const parsed = parseQuery(query);
+  await checkSourceFilters(parsed.filters, service);
+  // Highlight the terms the query asks for, not the excluded ones
+  const terms = queryTerms(parsed.groups.flat().map((atom) => atom.text).join(" "));
+
+  // The direct lookups below only apply to a single bare word without operators or filters
+  const isSingleTerm = parsed.filters.length === 0 && parsed.exclusions.length === 0 &&
+    parsed.groups.length === 1 && parsed.groups[0].length === 1 && !/[\s"]/.test(query.trim());
 
   // Optimization: If the query looks like an exact model/schema name, do a direct lookup
   // Match any PascalCase or snake_case identifier (e.g., "GetConversationResponseModel", "MyCustomSchema")
-  const isExactSchemaQuery = /^[A-Z][A-Za-z0-9_]*$/.test(query);
+  const isExactSchemaQuery = isSingleTerm && /^[A-Z][A-Za-z0-9_]*$/.test(query);
 
   // Optimization: If the query looks like a doc file name, do a direct lookup in docs_content
   // e.g., "avoiding_vendor_lockin.md", "quickstart.mdx", "README.md"
-  const isDocFileQuery = /\.[mM][dD](x)?$|\.txt$/.test(query);
+  const isDocFileQuery = isSingleTerm && /\.[mM][dD](x)?$|\.txt$/.test(query);
 
   if (isDocFileQuery) {
-    // Direct lookup in docs_content.parquet by fileName or filePath (exact and partial)
+    // Direct lookup in docs_files by fileName or filePath (exact and partial): one result per document,
+    // with its full text and a snippet from its first blocks
     const sql = `
-      SELECT
-        filePath,
-        fileName,
-        content,
-        lineNumber,
-        'markdown' as sourceType,
-        NULL as summary,
-        NULL as description,
-        NULL as apiPath,
-        NULL as method,
-        heading1,
-        heading2,
-        heading3,
-        contentType,
-        language
-      FROM read_parquet(?)
-      WHERE
-        fileName = ?
-        OR filePath = ?
-        OR lower(fileName) LIKE lower(?)
-        OR lower(filePath) LIKE lower(?)
-      LIMIT ?;
+      WITH page AS (
+        SELECT
+          filePath,
+          fileName,
+          title,
+          url,
+          source,
+          repository,
+          sourceUrl,
+          fullContent,
+          CASE WHEN fileName = ? OR filePath = ? THEN 2.0 ELSE 1.0 END AS score,
+          count(*) OVER ()::INTEGER AS totalMatches
+        FROM docs_files
+        WHERE
+          fileName = ?
+          OR filePath = ?
+          OR lower(fileName) LIKE lower(?)
+          OR lower(filePath) LIKE lower(?)
+        ORDER BY score DESC, filePath
+        LIMIT ? OFFSET ?
+      )
+      SELECT p.*, 'markdown' AS sourceType, min(c."order") AS blockOrder
+      FROM page p
+      LEFT JOIN docs_content c ON c.filePath = p.filePath
+      GROUP BY ALL
+      ORDER BY p.score DESC, p.filePath;
     `;
     const likePattern = `%${query}%`;
     const params = [
-      service.getDocsContentPath(),
+      query,
+      query,
       query,
       query,
       likePattern,
       likePattern,
-      limit
     ];
-    const dbResults = await service.executeQuery(sql, params);
+    const { rows: dbResults, totalMatches } = await fetchPage(sql, params, limit, offset, service);
 
-    const formattedResults: SearchDocsResultItem[] = dbResults.map((row: any) => {
-      let section: string | undefined = [row.heading1, row.heading2, row.heading3].filter(Boolean).join(' > ');
-      const snippetObj = extractSnippet(row.content, query);
-      let snippet = snippetObj.snippet;
-      let lineNumber: number | undefined = row.lineNumber;
-      if (snippetObj.lineNumber) lineNumber = snippetObj.lineNumber;
-      if (snippetObj.section) section = snippetObj.section;
+    const formattedResults: SearchDocsResultItem[] = await Promise.all(dbResults.map(async (row: any) => {
+      // The query is a file name, so there are no terms to highlight
+      let snippet = row.blockOrder == null ? "" : await buildMarkdownSnippet(row, [], contextBlocks, service);
 
       // Prepend the file name to the snippet for discoverability
       if (row.fileName) {
@@ -117,21 +665,24 @@ export async function handleSearchDocs(
 
       const result: any = {
         name: row.fileName,
+        title: rowTitle(row),
         path: row.filePath,
-        repository: "elevenlabs/elevenlabs-docs",
-        url: `https://github.com/elevenlabs/elevenlabs-docs/blob/main/${row.filePath}`,
+        source: row.source,
+        repository: row.repository,
+        url: row.url ?? row.sourceUrl,
+        sourceUrl: row.sourceUrl,
         snippet,
-        section: section || undefined,
-        lineNumber,
+        score: roundScore(row.score),
+        resourceUri: resourceUriForRow(row),
       };
       // Always include fullContent for direct doc file queries
-      if (row.content) {
-        result.fullContent = row.content;
+      if (row.fullContent) {
+        result.fullContent = row.fullContent;
       }
       return result;
-    });
+    }));
 
-    return { results: formattedResults };
+    return withSuggestions(pageResult(formattedResults, totalMatches, offset, query), offset, query, service);
   }
 
   if (isExactSchemaQuery) {
@@ -143,17 +694,28 @@ export async function handleSearchDocs(
         content,
         lineNumber,
         'api' as sourceType,
+        type,
         summary,
         description,
         apiPath,
         method,
         schemaDefinition,
+        url,
+        source,
+        repository,
+        sourceUrl,
         NULL as heading1,
         NULL as heading2,
         NULL as heading3,
         NULL as contentType,
-        NULL as language
-      FROM read_parquet(?)
+        NULL as language,
+        CASE
+          WHEN summary = ? OR fileName = ? THEN 3.0
+          WHEN lower(summary) LIKE lower(?) OR lower(fileName) LIKE lower(?) THEN 2.0
+          ELSE 1.0
+        END AS score,
+        count(*) OVER ()::INTEGER AS totalMatches
+      FROM api_spec
       WHERE
         summary = ?
         OR fileName = ?
@@ -161,37 +723,42 @@ export async function handleSearchDocs(
         OR lower(fileName) LIKE lower(?)
         OR lower(schemaDefinition) LIKE lower(?)
         OR lower(content) LIKE lower(?)
-      LIMIT ?;
+      ORDER BY score DESC, summary, rowId
+      LIMIT ? OFFSET ?;
     `;
     const likePattern = `%${query}%`;
     const params = [
-      service.getApiSpecPath(),
+      query,
+      query,
+      likePattern,
+      likePattern,
       query,
       query,
       likePattern,
       likePattern,
       likePattern,
       likePattern,
-      limit
     ];
-    const dbResults = await service.executeQuery(sql, params);
+    const { rows: dbResults, totalMatches } = await fetchPage(sql, params, limit, offset, service);
 
     const formattedResults: SearchDocsResultItem[] = dbResults.map((row: any) => {
-      let section: string | undefined = row.apiPath ? `${row.apiPath} (${row.method})` : row.summary;
-      const snippetObj = extractSnippet(row.content, query);
-      let snippet = snippetObj.snippet;
-      let lineNumber: number | undefined = row.lineNumber;
-      if (snippetObj.lineNumber) lineNumber = snippetObj.lineNumber;
-      if (snippetObj.section) section = snippetObj.section;
+      const section = apiSection(row);
+      const snippet = buildTextSnippet(row.content, terms);
+      const lineNumber: number | undefined = row.lineNumber ?? undefined;
 
       const result: any = {
         name: row.fileName,
+        title: rowTitle(row),
         path: row.filePath,
-        repository: "elevenlabs/elevenlabs-docs",
-        url: `https://github.com/elevenlabs/elevenlabs-docs/blob/main/${row.filePath}`,
+        source: row.source,
+        repository: row.repository,
+        url: row.url ?? row.sourceUrl,
+        sourceUrl: row.sourceUrl,
         snippet,
         section: section || undefined,
         lineNumber,
+        score: roundScore(row.score),
+        resourceUri: resourceUriForRow(row),
       };
       // Attach schemaDefinition if present
       if (row.schemaDefinition) {
@@ -200,150 +767,189 @@ export async function handleSearchDocs(
       return result;
     });
 
-    return { results: formattedResults };
-  }
-
-  // Split query into words for multi-word fuzzy search
-  const words = query
-    .split(/\s+/)
-    .map((w) => w.trim())
-    .filter(Boolean);
-
-  // Build WHERE clause for each word, for each field
-  function buildWordClauses(fields: string[]) {
-    const clauses: string[] = [];
-    for (const word of words) {
-      for (const field of fields) {
-        clauses.push(`${field} ILIKE ?`);
-        clauses.push(`levenshtein(lower(${field}), lower(?)) <= ?`);
-      }
+    // A capitalized word that names no schema (e.g. "ConvAI") is searched as text below instead
+    if (totalMatches > 0) {
+      return withSuggestions(pageResult(formattedResults, totalMatches, offset, query), offset, query, service);
     }
-    return clauses;
   }
 
-  const apiFields = [
-    "content",
-    "summary",
-    "description",
-    "apiPath",
-    "method"
+  // Ranked full-text search: BM25 over the inverted index built by DuckDBService.
+  // The query is tokenized with the same pattern as the index; rows matching more
+  // (and rarer) terms, and matching them in weighted fields, score higher.
+  // Rows must satisfy the parsed query (every group, no exclusion, all filters); a query
+  // of filters only lists the matching rows unranked.
+  const hasTerms = parsed.groups.length > 0;
+  const apiFilter = filterClause(parsed.filters, "api");
+  const markdownFilter = filterClause(parsed.filters, "markdown");
+  const phrase = (atom: QueryAtom) => ` ${atom.tokens.join(" ")} `;
+  const booleanConditions = [
+    ...parsed.groups.map((group) => `(${group.map(() => "contains(tokenText, ?)").join(" OR ")})`),
+    ...parsed.exclusions.map(() => "NOT contains(tokenText, ?)"),
   ];
-  const mdFields = ["content"];
+  const booleanParams = [...parsed.groups.flat().map(phrase), ...parsed.exclusions.map(phrase)];
+  const scoredJoin = hasTerms ? "JOIN" : "LEFT JOIN";
 
-  const apiClauses = buildWordClauses(apiFields);
-  const mdClauses = buildWordClauses(mdFields);
-
-  // Compose the full SQL
   const sql = `
-    WITH combined_results AS (
+    WITH query_terms AS (
+      SELECT DISTINCT unnest(regexp_extract_all(lower(?), '${DuckDBService.SEARCH_TOKEN_PATTERN}')) AS term
+    ),
+    corpus AS (
+      SELECT count(*) AS n, avg(docLength) AS avgdl FROM search_doc_stats
+    ),
+    scored AS (
+      SELECT
+        p.sourceType,
+        p.rowId,
+        sum(
+          ln(1 + (c.n - t.df + 0.5) / (t.df + 0.5))
+          * (p.tf * (${BM25_K1} + 1))
+          / (p.tf + ${BM25_K1} * (1 - ${BM25_B} + ${BM25_B} * d.docLength / c.avgdl))
+        ) AS score
+      FROM search_postings p
+      JOIN query_terms q ON q.term = p.term
+      JOIN search_terms t ON t.term = p.term
+      JOIN search_doc_stats d ON d.sourceType = p.sourceType AND d.rowId = p.rowId
+      CROSS JOIN corpus c
+      GROUP BY p.sourceType, p.rowId
+    ),
+    combined_results AS (
       SELECT
+        coalesce(s.score, 0) AS score,
+        a.rowId,
         filePath,
         fileName,
         content,
         lineNumber,
         'api' as sourceType,
+        type,
         summary,
         description,
         apiPath,
         method,
+        schemaDefinition,
         NULL as heading1,
         NULL as heading2,
         NULL as heading3,
+        NULL as title,
+        NULL as component,
         NULL as contentType,
-        NULL as language
-      FROM read_parquet(?)
-      WHERE (${apiClauses.join(" OR ")})
+        NULL as language,
+        a.url,
+        a.source,
+        a.repository,
+        a.sourceUrl,
+        NULL as blockOrder,
+        t.tokenText
+      FROM api_spec a
+      ${scoredJoin} scored s ON s.sourceType = 'api' AND s.rowId = a.rowId
+      JOIN search_token_text t ON t.sourceType = 'api' AND t.rowId = a.rowId
+      WHERE ${apiFilter.sql}
       UNION ALL
       SELECT
-        filePath,
-        fileName,
+        coalesce(s.score, 0) AS score,
+        m.rowId,
+        m.filePath,
+        m.fileName,
         content,
         lineNumber,
         'markdown' as sourceType,
+        NULL as type,
         NULL as summary,
         NULL as description,
         NULL as apiPath,
         NULL as method,
+        NULL as schemaDefinition,
         heading1,
         heading2,
         heading3,
+        m.title,
+        m.component,
         contentType,
-        language
-      FROM read_parquet(?)
-      WHERE (${mdClauses.join(" OR ")})
+        language,
+        m.url,
+        m.source,
+        m.repository,
+        m.sourceUrl,
+        m."order" AS blockOrder,
+        t.tokenText
+      FROM docs_content m
+      ${scoredJoin} scored s ON s.sourceType = 'markdown' AND s.rowId = m.rowId
+      JOIN search_token_text t ON t.sourceType = 'markdown' AND t.rowId = m.rowId
+      WHERE ${markdownFilter.sql}
+    ),
+    page AS (
+      SELECT * EXCLUDE (tokenText), count(*) OVER ()::INTEGER AS totalMatches
+      FROM combined_results
+      WHERE ${booleanConditions.length > 0 ? booleanConditions.join(" AND ") : "TRUE"}
+      ORDER BY score DESC, filePath, sourceType, rowId
+      LIMIT ? OFFSET ?
     )
-    SELECT * FROM combined_results
-    ORDER BY filePath
-    LIMIT ?;
+    -- Full documents are only read for the docs rows on the returned page
+    SELECT p.* EXCLUDE (rowId)${args.includeFullContent ? ", f.fullContent" : ""}
+    FROM page p
+    ${args.includeFullContent ? "LEFT JOIN docs_files f ON p.sourceType = 'markdown' AND f.filePath = p.filePath" : ""}
+    ORDER BY p.score DESC, p.filePath, p.sourceType, p.rowId;
   `;
 
-  // Build params array
-  const params: any[] = [];
-  params.push(service.getApiSpecPath());
-  for (const word of words) {
-    for (let i = 0; i < apiFields.length; i++) {
-      params.push(`%${word}%`);
-      params.push(word);
-      params.push(fuzzyThreshold);
-    }
-  }
-  params.push(service.getDocsContentPath());
-  for (const word of words) {
-    for (let i = 0; i < mdFields.length; i++) {
-      params.push(`%${word}%`);
-      params.push(word);
-      params.push(fuzzyThreshold);
-    }
-  }
-  params.push(limit);
-
-  const dbResults = await service.executeQuery(sql, params);
+  const params: any[] = [
+    terms.join(" "),
+    ...apiFilter.params,
+    ...markdownFilter.params,
+    ...booleanParams,
+  ];
 
-  // TODO: Implement snippet generation based on linesContext and fullFile.
-  // This is more complex now as we don't have the full file content readily available.
-  // Option 1: Fetch surrounding rows from Parquet based on filePath and order/lineNumber.
-  // Option 2: If fullFile is true, read the original file from /app/elevenlabs-docs using fs.
-  // Option 3: Add full file content to Parquet during ETL (increases size).
+  const { rows: dbResults, totalMatches } = await fetchPage(sql, params, limit, offset, service);
 
-  // For each result, return either the full file or a snippet with context
-  const formattedResults: SearchDocsResultItem[] = dbResults.map((row: any) => {
+  // For each result, return a snippet with context (and the full file if requested)
+  const formattedResults: SearchDocsResultItem[] = await Promise.all(dbResults.map(async (row: any) => {
     let section: string | undefined = undefined;
     let modelName: string | undefined = undefined;
     if (row.sourceType === 'api') {
       // Prefer summary as the model/schema name, fallback to fileName
       modelName = row.summary || row.fileName;
-      section = row.apiPath ? `${row.apiPath} (${row.method})` : modelName;
+      section = apiSection(row) ?? modelName;
     } else if (row.sourceType === 'markdown') {
       section = [row.heading1, row.heading2, row.heading3].filter(Boolean).join(' > ');
     }
 
-    // Always extract a snippet with context lines
-    const snippetObj = extractSnippet(row.content, query);
-    let snippet = snippetObj.snippet;
-    let lineNumber: number | undefined = row.lineNumber;
-    if (snippetObj.lineNumber) lineNumber = snippetObj.lineNumber;
-    if (snippetObj.section) section = snippetObj.section;
+    // Markdown matches come with their neighbouring blocks; API rows with a highlighted excerpt
+    let snippet = row.sourceType === 'markdown'
+      ? await buildMarkdownSnippet(row, terms, contextBlocks, service)
+      : buildTextSnippet(row.content, terms);
+    const lineNumber: number | undefined = row.lineNumber ?? undefined;
 
-    // For API spec results, prepend the model/schema name to the snippet for discoverability
-    if (row.sourceType === 'api' && modelName) {
+    // For API spec results, prepend the model/schema name (or channel address) to the snippet for discoverability
+    if (row.sourceType === 'api' && row.type === 'channel') {
+      snippet = `WebSocket channel: ${row.apiPath}\n${snippet}`;
+    } else if (row.sourceType === 'api' && modelName) {
       snippet = `Model: ${modelName}\n${snippet}`;
     }
 
     const result: any = {
       name: row.fileName,
+      title: rowTitle(row),
       path: row.filePath,
-      repository: "elevenlabs/elevenlabs-docs",
-      url: `https://github.com/elevenlabs/elevenlabs-docs/blob/main/${row.filePath}`,
+      source: row.source,
+      repository: row.repository,
+      url: row.url ?? row.sourceUrl,
+      sourceUrl: row.sourceUrl,
       snippet,
       section: section || undefined,
+      component: row.component ?? undefined,
       lineNumber,
+      score: roundScore(row.score),
+      resourceUri: resourceUriForRow(row),
     };
     // Only include fullContent for markdown rows if requested
     if (args.includeFullContent && row.sourceType === 'markdown' && row.fullContent) {
       result.fullContent = row.fullContent;
     }
+    // Only include schemaDefinition for API rows if requested
+    if (args.includeSchemaDefinition && row.sourceType === 'api' && row.schemaDefinition) {
+      result.schemaDefinition = row.schemaDefinition;
+    }
     return result;
-  });
+  }));
 
-  return { results: formattedResults };
+  return withSuggestions(pageResult(formattedResults, totalMatches, offset, query), offset, query, service);
 }
@@ -4,18 +4,33 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequest,
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { allTools } from "./tools/definitions.js";
+import { allPrompts } from "./prompts/definitions.js";
 // Removed ElevenLabsClient import
 import { DuckDBService } from "./services/DuckDBService.js"; // Added DuckDBService import
-import { handleToolRequest } from "./handlers/index.js";
-
-async function main() {
-  const githubToken = process.env.GITHUB_TOKEN;
+import { logger } from "./services/Logger.js";
+import {
+  handleGetPrompt,
+  handleListResources,
+  handleReadResource,
+  handleToolRequest,
+  resourceTemplates,
+} from "./handlers/index.js";
+import { parseTransportConfig, startSseServer } from "./transports/sse.js";
 
-  console.log("Starting ElevenLabs MCP Server...");
+/**
+ * Creates an MCP server with every tool, resource and prompt handler registered.
+ * Each HTTP session gets its own Server (one transport per Server), all backed by the same DuckDBService.
+ */
+function createServer(duckDBService: DuckDBService): Server {
   const server = new Server(
     {
       name: "ElevenLabs MCP Server",
@@ -24,35 +39,43 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
+        logging: {},
       },
     },
   );
 
-  // Instantiate DuckDBService instead of ElevenLabsClient
-  const duckDBService = new DuckDBService();
-  // We might need a way to gracefully close the DB connection on server shutdown later
-
   server.setRequestHandler(
     CallToolRequestSchema,
     async (request: CallToolRequest) => {
-      console.log("Received CallToolRequest:", request);
+      // Arguments belong to the calling client, so they stay out of other sessions' log notifications
+      logger.log('debug', `Received tool call: ${request.params.name}`, { arguments: request.params.arguments }, { localOnly: true });
+      // Clients that send a progress token are notified as long-running tools (elevenlabs_reindex) advance
+      const progressToken = request.params._meta?.progressToken;
+      const onProgress = progressToken === undefined
+        ? undefined
+        : (progress: number, total: number) => {
+            server
+              .notification({ method: "notifications/progress", params: { progressToken, progress, total } })
+              .catch((error) => logger.debug("Could not send a progress notification.", { error }));
+          };
       try {
-        if (!request.params.arguments) {
-          throw new Error("No arguments provided");
-        }
-
+        // Some tools (e.g. elevenlabs_docs_structure) have only optional arguments
         // Pass duckDBService to the handler
         const result = await handleToolRequest(
           request.params.name,
-          request.params.arguments,
-          duckDBService // Pass the DuckDB service instance
+          request.params.arguments ?? {},
+          duckDBService, // Pass the DuckDB service instance
+          onProgress
         );
 
         return {
           content: [{ type: "text", text: JSON.stringify(result) }],
         };
       } catch (error) {
-        console.error("Error executing tool:", error);
+        // The message can echo the caller's arguments, so it is not sent to other sessions either
+        logger.log('warning', `Error executing tool ${request.params.name}: ${error instanceof Error ? error.message : String(error)}`, undefined, { localOnly: true });
         return {
           content: [
             {
@@ -73,14 +96,71 @@ async function main() {
     };
   });
 
+  // Every indexed doc page, schema and endpoint is exposed as a resource
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const { resources, nextCursor } = await handleListResources(
+      { cursor: request.params?.cursor },
+      duckDBService
+    );
+    return { resources, nextCursor };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates,
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { contents } = await handleReadResource(request.params.uri, duckDBService);
+    return { contents };
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: allPrompts,
+    };
+  });
+
+  // Prompt messages are assembled from the index at request time
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { description, messages } = await handleGetPrompt(
+      request.params.name,
+      request.params.arguments ?? {},
+      duckDBService
+    );
+    return { description, messages };
+  });
+
+  // logging/setLevel and log notifications
+  logger.attachServer(server);
+
+  return server;
+}
+
+async function main() {
+  const githubToken = process.env.GITHUB_TOKEN;
+  const config = parseTransportConfig(process.argv.slice(2));
+
+  logger.info("Starting ElevenLabs MCP Server...");
+  // Instantiate DuckDBService instead of ElevenLabsClient
+  const duckDBService = new DuckDBService();
+  // We might need a way to gracefully close the DB connection on server shutdown later
+
+  if (config.transport === "sse") {
+    await startSseServer(config, () => createServer(duckDBService));
+    return;
+  }
+
+  const server = createServer(duckDBService);
   const transport = new StdioServerTransport();
-  console.log("Connecting server to transport...");
+  logger.debug("Connecting server to transport...");
   await server.connect(transport);
 
-  console.log("ElevenLabs MCP Server running on stdio");
+  logger.info("ElevenLabs MCP Server running on stdio");
 }
 
 main().catch((error) => {
-  console.error("Fatal error in main():", error);
+  logger.critical("Fatal error in main().", { error });
   process.exit(1);
 });
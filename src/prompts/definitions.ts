@@ -0,0 +1,53 @@
+import { Prompt } from "@modelcontextprotocol/sdk/types.js";
+
+// Prompt definitions
+/**
+ * Prompts are assembled at request time from the DuckDB index (doc sections, code blocks and
+ * endpoint definitions), so their messages reflect the current docs snapshot.
+ */
+export const integrateTtsStreamingPrompt: Prompt = {
+  name: "integrate_tts_streaming",
+  description:
+    "Integrate ElevenLabs text-to-speech streaming in a given language, grounded in the indexed streaming docs, code examples and endpoint definitions.",
+  arguments: [
+    {
+      name: "language",
+      description: "Target language or runtime, e.g. python, typescript, curl",
+      required: true,
+    },
+  ],
+};
+
+export const explainEndpointPrompt: Prompt = {
+  name: "explain_endpoint",
+  description:
+    "Explain an ElevenLabs API endpoint: parameters, request body, responses and related documentation from the index.",
+  arguments: [
+    {
+      name: "endpoint",
+      description: 'Endpoint as "METHOD /path" (e.g. "POST /v1/text-to-speech/{voice_id}") or an operationId',
+      required: true,
+    },
+  ],
+};
+
+export const migrateEndpointPrompt: Prompt = {
+  name: "migrate_endpoint",
+  description:
+    "Plan a migration from one ElevenLabs API endpoint to another, with both definitions and the differences between them.",
+  arguments: [
+    {
+      name: "from",
+      description: 'Endpoint currently in use, as "METHOD /path" or an operationId',
+      required: true,
+    },
+    {
+      name: "to",
+      description: 'Endpoint to migrate to, as "METHOD /path" or an operationId',
+      required: true,
+    },
+  ],
+};
+
+// Export all prompts
+export const allPrompts = [integrateTtsStreamingPrompt, explainEndpointPrompt, migrateEndpointPrompt];
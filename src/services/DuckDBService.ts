@@ -1,8 +1,10 @@
-import { DuckDBInstance, DuckDBConnection } from '@duckdb/node-api';
+import { DuckDBInstance, DuckDBConnection, DuckDBPreparedStatement } from '@duckdb/node-api';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs/promises'; // Import fs for checking file existence
+import { watch, FSWatcher } from 'fs';
 import { execSync } from 'child_process'; // Import for running ETL script
+import { logger } from './Logger.js';
 
 // Define the structure of query results if needed, e.g., for search results
 // interface SearchResult { ... }
@@ -11,11 +13,28 @@ import { execSync } from 'child_process'; // Import for running ETL script
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// The ETL writes its files one after another; reload once DATA_DIR has been quiet this long
+const RELOAD_DEBOUNCE_MS = 2000;
+
 export class DuckDBService {
+    // Tokens are lowercase alphanumeric runs; snake_case and paths split into words
+    public static readonly SEARCH_TOKEN_PATTERN = '[a-z0-9]+';
+
+    // Per-field weights for the search index (higher = more relevant than body text)
+    public static readonly SEARCH_FIELD_WEIGHTS = {
+        api: { summary: 3, apiPath: 3, method: 1, description: 1.5, content: 1 },
+        markdown: { title: 2, heading1: 3, heading2: 3, heading3: 3, content: 1 },
+    };
+
     private instance: DuckDBInstance | null = null;
     private connection: DuckDBConnection | null = null;
     private dbInitialized: Promise<void>; // Promise to track initialization
 
+    // Prepared statements keyed by SQL text, reused across queries
+    private preparedStatements = new Map<string, DuckDBPreparedStatement>();
+    // Queries run one at a time on the shared connection (prepared statements hold bindings)
+    private queryQueue: Promise<unknown> = Promise.resolve();
+
     // Determine base path for data files
     // Use DATA_DIR env var if set (for Docker), otherwise assume relative to project root for local dev
     private dataBasePath = process.env.DATA_DIR
@@ -25,57 +44,300 @@ export class DuckDBService {
 
     // Paths to the Parquet files, resolved relative to the base path
     private apiSpecPath: string;
+    // The api_spec snapshot of the build before the current one, kept by the ETL for change reports
+    private previousApiSpecPath: string;
     private docsContentPath: string;
+    private docsNavigationPath: string;
 
+    // Database location: a file under DATA_DIR when DUCKDB_PERSIST=true, otherwise in-memory
+    private databasePath: string;
+
+    // Provenance of the loaded Parquet files (the index_metadata row), null if the ETL did not record it
+    private indexMetadata: Record<string, any> | null = null;
+    // Modification times of the loaded Parquet files, to tell whether DATA_DIR has changed since
+    private loadedMtimes: number[] = [];
+
+    // Hot reload: DATA_DIR watcher, its debounce timer, and reloads running one at a time
+    private watcher: FSWatcher | null = null;
+    private reloadTimer: NodeJS.Timeout | null = null;
+    private reloadQueue: Promise<unknown> = Promise.resolve();
 
     constructor() {
         this.apiSpecPath = path.join(this.dataBasePath, 'api_spec.parquet');
+        this.previousApiSpecPath = path.join(this.dataBasePath, 'api_spec.previous.parquet');
         this.docsContentPath = path.join(this.dataBasePath, 'docs_content.parquet');
-        console.log(`Resolved Parquet paths: API=${this.apiSpecPath}, Docs=${this.docsContentPath}`);
+        this.docsNavigationPath = path.join(this.dataBasePath, 'docs_navigation.parquet');
+        this.databasePath = process.env.DUCKDB_PERSIST === 'true'
+            ? path.join(this.dataBasePath, 'elevenlabs_docs.duckdb')
+            : ':memory:';
+        logger.info(`Resolved Parquet paths: API=${this.apiSpecPath}, Docs=${this.docsContentPath}`);
         // Initialize the database asynchronously
         this.dbInitialized = this.initializeDatabase();
     }
 
     private async initializeDatabase(): Promise<void> {
         try {
-            console.log('Initializing DuckDB instance (:memory:)...');
-            // Use DuckDBInstance.create() for in-memory DB
-            this.instance = await DuckDBInstance.create(':memory:');
+            logger.info(`Initializing DuckDB instance (${this.databasePath})...`);
+            this.instance = await DuckDBInstance.create(this.databasePath);
             this.connection = await this.instance.connect();
-            console.log('DuckDB instance and connection initialized successfully.');
+            logger.debug('DuckDB instance and connection initialized successfully.');
 
             // Check if running locally and Parquet files are missing, run ETL if needed
             await this.ensureDataFilesExist(); // Re-enabled automatic ETL run
 
-            // Verify Parquet files exist on startup
-            await this.verifyParquetFile(this.apiSpecPath, 'api_spec');
-            await this.verifyParquetFile(this.docsContentPath, 'docs_content');
+            // Materialize the Parquet files into tables (skipped if a persisted database is up to date)
+            this.loadedMtimes = await this.loadTables(this.connection, this.dataBasePath, this.databasePath !== ':memory:');
+            this.indexMetadata = await this.readIndexMetadata(this.connection);
+            // Leave no write-ahead log behind, so a reload can replace the database file
+            if (this.databasePath !== ':memory:') await this.connection.run('CHECKPOINT;');
+
+            // Pick up Parquet files written after startup (ETL runs, elevenlabs_reindex)
+            this.watchDataDir();
 
         } catch (error) {
-            console.error('FATAL: Failed to initialize DuckDB instance:', error);
+            logger.critical('Failed to initialize DuckDB instance.', { error });
             // Depending on the application, you might want to exit or prevent requests
             throw new Error('DuckDB initialization failed');
         }
     }
 
-    private async verifyParquetFile(filePath: string, tableName: string): Promise<void> {
-        if (!this.connection) {
-            throw new Error('DuckDB connection not available for verification.');
+    /**
+     * Loads the Parquet files into tables and builds indexes and the search index.
+     * - api_spec: all api_spec.parquet columns plus rowId
+     * - docs_content: docs_content.parquet blocks plus rowId, without the per-row fullContent copy
+     * - docs_files: one row per document (filePath, fileName, title, subtitle, slug, url without anchor, source, repository, sourceUrl, fullContent)
+     * - docs_navigation: sidebar nodes from fern/docs.yml (empty if docs_navigation.parquet is missing)
+     * - search_vocabulary: term dictionary for did-you-mean suggestions (empty if search_vocabulary.parquet is missing)
+     * - index_metadata: one row with the docs commit and build details (empty if index_metadata.parquet is missing)
+     * With a persisted database (reusePersisted), the load is skipped when the Parquet files have not
+     * changed since the last load (tracked in the load_info table). load_info names the files in DATA_DIR,
+     * where files loaded from a staging directory end up once validated.
+     * @returns The modification times of the loaded files (0 for missing optional files).
+     */
+    private async loadTables(connection: DuckDBConnection, dir: string, reusePersisted = false): Promise<number[]> {
+        const sources = DuckDBService.dataSources(dir);
+        const mtimes = await DuckDBService.sourceMtimes(sources);
+
+        if (reusePersisted && await this.isLoadUpToDate(connection, sources, mtimes)) {
+            logger.info(`Persisted database ${this.databasePath} is up to date with the Parquet files; skipping load.`);
+            await this.logTableCounts(connection, 'Reused persisted tables');
+            return mtimes;
         }
-        // Removed isClosed check as it doesn't seem to exist
-        // if (this.connection.isClosed) { ... }
+        const [apiSpec, docsContent, docsNavigation, searchVocabulary, indexMetadata] = sources.map((source) => source.sourcePath);
 
+        const startedAt = Date.now();
         try {
-            // Simple query to check if the file is readable by DuckDB
-            // Use runAndReadAll which returns a reader, then ignore the result
-            // Pass parameters as an array
-            const reader = await this.connection.runAndReadAll(`SELECT COUNT(*) FROM read_parquet(?) LIMIT 1;`, [filePath]);
-            // We don't need the actual count, just that it didn't throw.
-            console.log(`Parquet file verified: ${filePath} (for table ${tableName})`);
+            await connection.run(`
+                CREATE OR REPLACE TABLE api_spec AS
+                SELECT file_row_number::INTEGER AS rowId, * EXCLUDE (file_row_number)
+                FROM read_parquet($path, file_row_number=true);
+            `, { path: apiSpec });
+            await connection.run(`
+                CREATE OR REPLACE TABLE docs_content AS
+                SELECT file_row_number::INTEGER AS rowId, * EXCLUDE (file_row_number, fullContent)
+                FROM read_parquet($path, file_row_number=true);
+            `, { path: docsContent });
+            await connection.run(`
+                CREATE OR REPLACE TABLE docs_files AS
+                SELECT filePath, any_value(fileName) AS fileName, any_value(title) AS title, any_value(subtitle) AS subtitle,
+                    any_value(slug) AS slug, any_value(regexp_replace(url, '#.*$', '')) AS url, any_value(source) AS source,
+                    any_value(repository) AS repository, any_value(sourceUrl) AS sourceUrl, any_value(fullContent) AS fullContent
+                FROM read_parquet($path)
+                GROUP BY filePath;
+            `, { path: docsContent });
+            if (mtimes[2] > 0) {
+                await connection.run(`
+                    CREATE OR REPLACE TABLE docs_navigation AS
+                    SELECT * FROM read_parquet($path);
+                `, { path: docsNavigation });
+            } else {
+                logger.warning(`Parquet file not found at ${docsNavigation}; the docs structure will be empty. Re-run the ETL to generate it.`);
+                await connection.run(`
+                    CREATE OR REPLACE TABLE docs_navigation (
+                        id INTEGER, parentId INTEGER, tab VARCHAR, type VARCHAR, title VARCHAR, filePath VARCHAR,
+                        href VARCHAR, icon VARCHAR, slug VARCHAR, skipSlug BOOLEAN, hidden BOOLEAN, url VARCHAR, source VARCHAR
+                    );
+                `);
+            }
+            if (mtimes[3] > 0) {
+                await connection.run(`
+                    CREATE OR REPLACE TABLE search_vocabulary AS
+                    SELECT * FROM read_parquet($path);
+                `, { path: searchVocabulary });
+            } else {
+                logger.warning(`Parquet file not found at ${searchVocabulary}; search will not suggest spelling corrections. Re-run the ETL to generate it.`);
+                await connection.run(`
+                    CREATE OR REPLACE TABLE search_vocabulary (term VARCHAR, normalized VARCHAR, kind VARCHAR, frequency INTEGER);
+                `);
+            }
+            if (mtimes[4] > 0) {
+                await connection.run(`
+                    CREATE OR REPLACE TABLE index_metadata AS
+                    SELECT * FROM read_parquet($path);
+                `, { path: indexMetadata });
+            } else {
+                logger.warning(`Parquet file not found at ${indexMetadata}; the docs commit of the data is unknown. Re-run the ETL to generate it.`);
+                await connection.run(`
+                    CREATE OR REPLACE TABLE index_metadata (
+                        docsCommitSha VARCHAR, docsCommitDate VARCHAR, builtAt VARCHAR, etlVersion VARCHAR,
+                        tableRowCounts VARCHAR, failedFileCount INTEGER, failedFiles VARCHAR, sources VARCHAR, apiSpecHash VARCHAR
+                    );
+                `);
+            }
+
+            // ART indexes for the point lookups done by the handlers
+            await connection.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_api_spec_row ON api_spec (rowId);');
+            await connection.run('CREATE INDEX IF NOT EXISTS idx_api_spec_summary ON api_spec (summary);');
+            await connection.run('CREATE INDEX IF NOT EXISTS idx_api_spec_endpoint ON api_spec (apiPath, method);');
+            await connection.run('CREATE INDEX IF NOT EXISTS idx_api_spec_operation ON api_spec (operationId);');
+            await connection.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_docs_content_row ON docs_content (rowId);');
+            await connection.run('CREATE INDEX IF NOT EXISTS idx_docs_content_file ON docs_content (filePath);');
+            await connection.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_docs_files_path ON docs_files (filePath);');
+            await connection.run('CREATE INDEX IF NOT EXISTS idx_docs_navigation_file ON docs_navigation (filePath);');
+            await connection.run('CREATE INDEX IF NOT EXISTS idx_search_vocabulary_normalized ON search_vocabulary (normalized);');
         } catch (error) {
-            console.error(`Error verifying Parquet file ${filePath}:`, error);
-            // Decide if this should be fatal
-            throw new Error(`Failed to verify or read Parquet file: ${filePath}`);
+            logger.error('Error loading Parquet files into tables.', { error });
+            throw new Error('Failed to load Parquet files into DuckDB tables');
+        }
+
+        // Build the inverted index used for ranked (BM25) search
+        await this.buildSearchIndex(connection);
+
+        await connection.run('CREATE OR REPLACE TABLE load_info (tableName VARCHAR, sourcePath VARCHAR, sourceMtimeMs DOUBLE);');
+        for (let i = 0; i < sources.length; i++) {
+            await connection.run('INSERT INTO load_info VALUES ($tableName, $sourcePath, $mtime);', {
+                tableName: sources[i].tableName,
+                sourcePath: DuckDBService.dataSources(this.dataBasePath)[i].sourcePath,
+                mtime: mtimes[i],
+            });
+        }
+        await this.logTableCounts(connection, `Loaded tables in ${Date.now() - startedAt} ms`);
+        return mtimes;
+    }
+
+    // The Parquet files in a data directory, in load order; optional ones are missing from older ETL builds
+    private static dataSources(dir: string): { tableName: string; sourcePath: string; optional?: boolean }[] {
+        return [
+            { tableName: 'api_spec', sourcePath: path.join(dir, 'api_spec.parquet') },
+            { tableName: 'docs_content', sourcePath: path.join(dir, 'docs_content.parquet') },
+            { tableName: 'docs_navigation', sourcePath: path.join(dir, 'docs_navigation.parquet'), optional: true },
+            { tableName: 'search_vocabulary', sourcePath: path.join(dir, 'search_vocabulary.parquet'), optional: true },
+            { tableName: 'index_metadata', sourcePath: path.join(dir, 'index_metadata.parquet'), optional: true },
+        ];
+    }
+
+    private static async sourceMtimes(sources: { sourcePath: string; optional?: boolean }[]): Promise<number[]> {
+        return Promise.all(sources.map(async ({ sourcePath, optional }) => {
+            try {
+                return (await fs.stat(sourcePath)).mtimeMs;
+            } catch (error) {
+                if (optional) return 0; // Older ETL builds do not produce this file
+                throw new Error(`Failed to verify or read Parquet file: ${sourcePath}`);
+            }
+        }));
+    }
+
+    // True when load_info records the same Parquet files and modification times
+    private async isLoadUpToDate(connection: DuckDBConnection, sources: { tableName: string; sourcePath: string }[], mtimes: number[]): Promise<boolean> {
+        try {
+            // Databases persisted by older versions lack the newer search tables
+            await connection.run('SELECT 1 FROM search_token_text LIMIT 1;');
+            const reader = await connection.runAndReadAll('SELECT tableName, sourcePath, sourceMtimeMs FROM load_info;');
+            const rows = reader.getRowObjects() as any[];
+            return sources.every(({ tableName, sourcePath }, i) =>
+                rows.some((row) => row.tableName === tableName && row.sourcePath === sourcePath && row.sourceMtimeMs === mtimes[i]));
+        } catch {
+            // No load_info table yet, or missing search tables
+            return false;
+        }
+    }
+
+    // The index_metadata row, which every search response refers to (cached by the caller)
+    private async readIndexMetadata(connection: DuckDBConnection): Promise<Record<string, any> | null> {
+        const reader = await connection.runAndReadAll('SELECT * FROM index_metadata LIMIT 1;');
+        const [row] = reader.getRowObjects() as Record<string, any>[];
+        if (row) {
+            logger.info(`Docs snapshot: commit ${row.docsCommitSha ?? 'unknown'} (${row.docsCommitDate ?? 'no date'}), built ${row.builtAt}.`);
+        }
+        return row ?? null;
+    }
+
+    // Startup metric: load time and row counts per table
+    private async logTableCounts(connection: DuckDBConnection, label: string): Promise<void> {
+        const reader = await connection.runAndReadAll(`
+            SELECT
+                (SELECT count(*) FROM api_spec)::INTEGER AS apiRows,
+                (SELECT count(*) FROM docs_content)::INTEGER AS docsRows,
+                (SELECT count(*) FROM docs_files)::INTEGER AS docsFiles,
+                (SELECT count(*) FROM docs_navigation)::INTEGER AS navigationNodes,
+                (SELECT count(*) FROM search_terms)::INTEGER AS terms,
+                (SELECT count(*) FROM search_vocabulary)::INTEGER AS vocabulary;
+        `);
+        const [counts] = reader.getRowObjects() as any[];
+        logger.info(
+            `${label}: api_spec=${counts.apiRows} rows, docs_content=${counts.docsRows} rows, ` +
+            `docs_files=${counts.docsFiles} files, docs_navigation=${counts.navigationNodes} nodes, search_terms=${counts.terms} terms, search_vocabulary=${counts.vocabulary} terms.`
+        );
+    }
+
+    /**
+     * Builds an in-process inverted index over api_spec and docs_content, used for BM25 ranking.
+     * Rows are identified by (sourceType, rowId), where rowId is the Parquet file_row_number.
+     * Each field contributes its weight per token occurrence, so headings, summaries and
+     * apiPath count more than body text (a BM25F-style weighted term frequency).
+     * - search_postings: sourceType, rowId, term, tf (weighted term frequency)
+     * - search_doc_stats: sourceType, rowId, docLength (weighted token count)
+     * - search_terms: term, df (number of rows containing the term)
+     * - search_token_text: sourceType, rowId, tokenText (the row's indexed fields as ' '-delimited tokens,
+     *   so contains(tokenText, ' a b ') matches the phrase "a b" without re-tokenizing at query time)
+     */
+    private async buildSearchIndex(connection: DuckDBConnection): Promise<void> {
+        const weights = DuckDBService.SEARCH_FIELD_WEIGHTS;
+        const apiFields = Object.entries(weights.api)
+            .map(([field, weight]) => `SELECT 'api' AS sourceType, rowId, ${weight} AS weight, ${field} AS text FROM api_spec`);
+        const mdFields = Object.entries(weights.markdown)
+            .map(([field, weight]) => `SELECT 'markdown' AS sourceType, rowId, ${weight} AS weight, ${field} AS text FROM docs_content`);
+        const tokenText = (fields: string[]) =>
+            `' ' || array_to_string(regexp_extract_all(lower(concat_ws(' ', ${fields.join(', ')})), '${DuckDBService.SEARCH_TOKEN_PATTERN}'), ' ') || ' '`;
+
+        try {
+            logger.debug('Building search index...');
+            await connection.run(`
+                CREATE OR REPLACE TABLE search_postings AS
+                SELECT sourceType, rowId, term, sum(weight) AS tf
+                FROM (
+                    SELECT sourceType, rowId, weight, unnest(regexp_extract_all(lower(text), '${DuckDBService.SEARCH_TOKEN_PATTERN}')) AS term
+                    FROM (${[...apiFields, ...mdFields].join(' UNION ALL ')})
+                    WHERE text IS NOT NULL
+                )
+                GROUP BY sourceType, rowId, term;
+            `);
+            await connection.run(`
+                CREATE OR REPLACE TABLE search_doc_stats AS
+                SELECT sourceType, rowId, sum(tf) AS docLength
+                FROM search_postings
+                GROUP BY sourceType, rowId;
+            `);
+            await connection.run(`
+                CREATE OR REPLACE TABLE search_terms AS
+                SELECT term, count(*) AS df
+                FROM search_postings
+                GROUP BY term;
+            `);
+            await connection.run(`
+                CREATE OR REPLACE TABLE search_token_text AS
+                SELECT 'api' AS sourceType, rowId, ${tokenText(Object.keys(weights.api))} AS tokenText FROM api_spec
+                UNION ALL
+                SELECT 'markdown' AS sourceType, rowId, ${tokenText(Object.keys(weights.markdown))} AS tokenText FROM docs_content;
+            `);
+            await connection.run('CREATE INDEX IF NOT EXISTS idx_search_postings_term ON search_postings (term);');
+            await connection.run('CREATE UNIQUE INDEX IF NOT EXISTS idx_search_terms_term ON search_terms (term);');
+            const stats = await connection.runAndReadAll(`SELECT (SELECT count(*) FROM search_doc_stats)::INTEGER AS docs, (SELECT count(*) FROM search_terms)::INTEGER AS terms;`);
+            const [{ docs, terms }] = stats.getRowObjects() as any[];
+            logger.info(`Search index built: ${docs} rows, ${terms} distinct terms.`);
+        } catch (error) {
+            logger.error('Error building search index.', { error });
+            throw new Error('Failed to build search index');
         }
     }
 
@@ -83,33 +345,176 @@ export class DuckDBService {
     private async ensureDataFilesExist(): Promise<void> {
         // Only run this check/ETL trigger in non-Docker environments (approximated by checking DATA_DIR)
         if (!process.env.DATA_DIR) {
-            console.log('Local environment detected. Checking for Parquet files...');
+            logger.info('Local environment detected. Checking for Parquet files...');
             try {
                 await fs.access(this.apiSpecPath, fs.constants.F_OK);
-                console.log('Parquet files found.');
+                logger.debug('Parquet files found.');
             } catch (error) {
                 // ENOENT means file doesn't exist
                 if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-                    console.warn(`Parquet file not found at ${this.apiSpecPath}. Running ETL script...`);
+                    logger.warning(`Parquet file not found at ${this.apiSpecPath}. Running ETL script...`);
                     try {
                         const projectRoot = path.resolve(__dirname, '../../../');
                         const etlScriptPath = path.join(projectRoot, 'etl/run-etl.mjs');
-                        console.log(`Executing: node ${etlScriptPath} in ${projectRoot}`);
-                        // Execute synchronously as startup depends on this
-                        execSync(`node ${etlScriptPath}`, { cwd: projectRoot, stdio: 'inherit' });
-                        console.log('ETL script finished.');
+                        logger.debug(`Executing: node ${etlScriptPath} in ${projectRoot}`);
+                        // Execute synchronously as startup depends on this; ETL output goes to stderr, never stdout
+                        execSync(`node ${etlScriptPath}`, { cwd: projectRoot, stdio: ['ignore', 2, 2] });
+                        logger.info('ETL script finished.');
                     } catch (etlError) {
-                        console.error('FATAL: Failed to execute ETL script:', etlError);
+                        logger.critical('Failed to execute ETL script.', { error: etlError });
                         throw new Error('Failed to generate necessary data files via ETL.');
                     }
                 } else {
                     // Other fs.access error
-                    console.error(`Error checking for Parquet file ${this.apiSpecPath}:`, error);
+                    logger.error(`Error checking for Parquet file ${this.apiSpecPath}.`, { error });
                     throw new Error(`Failed to check for data file existence.`);
                 }
             }
         } else {
-             console.log('Docker environment detected (DATA_DIR is set). Assuming Parquet files exist.');
+             logger.info('Docker environment detected (DATA_DIR is set). Assuming Parquet files exist.');
+        }
+    }
+
+    /**
+     * Watches DATA_DIR and reloads once rewritten Parquet files have settled (see reload).
+     * Disabled with WATCH_DATA_DIR=false.
+     */
+    private watchDataDir(): void {
+        if (process.env.WATCH_DATA_DIR === 'false') return;
+        const fileNames = new Set(DuckDBService.dataSources('').map(({ sourcePath }) => sourcePath));
+        try {
+            this.watcher = watch(this.dataBasePath, (_event, fileName) => {
+                if (!fileName || !fileNames.has(fileName.toString())) return;
+                if (this.reloadTimer) clearTimeout(this.reloadTimer);
+                this.reloadTimer = setTimeout(() => {
+                    this.reloadTimer = null;
+                    this.reload().catch((error) => {
+                        logger.warning(`Not reloading ${this.dataBasePath}, still serving the loaded data: ${error instanceof Error ? error.message : String(error)}`);
+                    });
+                }, RELOAD_DEBOUNCE_MS);
+                this.reloadTimer.unref();
+            });
+            this.watcher.on('error', (error) => logger.warning(`Stopped watching ${this.dataBasePath}.`, { error }));
+            this.watcher.unref();
+            logger.info(`Watching ${this.dataBasePath} for new Parquet files.`);
+        } catch (error) {
+            logger.warning(`Cannot watch ${this.dataBasePath}; new Parquet files are picked up on restart only.`, { error });
+        }
+    }
+
+    /**
+     * Switches queries over to a new set of Parquet files.
+     * The files are loaded into a fresh database and validated first, so if anything fails the current
+     * tables stay in service. The switch is queued behind the queries already running, which finish on
+     * the old tables. Reloads run one at a time.
+     * With DUCKDB_PERSIST=true the fresh database is a file next to the persisted one, renamed over it
+     * after the switch, so the next start reuses the reloaded tables.
+     * @param stagingDir A complete ETL output to move into DATA_DIR once it is validated; without it,
+     *   DATA_DIR itself is reloaded if its files changed since the last load.
+     * @returns The index_metadata row of the data now being served.
+     */
+    public reload(stagingDir?: string): Promise<Record<string, any> | null> {
+        const task = this.reloadQueue.then(() => this.swapInData(stagingDir));
+        this.reloadQueue = task.catch(() => undefined);
+        return task;
+    }
+
+    private async swapInData(stagingDir?: string): Promise<Record<string, any> | null> {
+        await this.ensureInitialized();
+        const dir = stagingDir ?? this.dataBasePath;
+        if (!stagingDir) {
+            const mtimes = await DuckDBService.sourceMtimes(DuckDBService.dataSources(dir));
+            if (mtimes.every((mtime, i) => mtime === this.loadedMtimes[i])) return this.indexMetadata;
+        }
+
+        logger.info(`Loading Parquet files from ${dir}...`);
+        const persisted = this.databasePath !== ':memory:';
+        const loadPath = persisted ? `${this.databasePath}.loading-${Date.now()}` : ':memory:';
+        const instance = await DuckDBInstance.create(loadPath);
+        const connection = await instance.connect();
+        let swapped = false;
+        try {
+            const mtimes = await this.loadTables(connection, dir);
+            const metadata = await this.readIndexMetadata(connection);
+            await DuckDBService.validateTables(connection, metadata);
+            if (persisted) await connection.run('CHECKPOINT;');
+            // Renames keep the modification times, so the watcher sees nothing new afterwards
+            if (stagingDir) await this.promoteFiles(stagingDir);
+
+            const previous = await this.enqueue(async () => {
+                const old = this.connection;
+                this.instance = instance;
+                this.connection = connection;
+                this.preparedStatements.clear();
+                this.indexMetadata = metadata;
+                this.loadedMtimes = mtimes;
+                return old;
+            });
+            swapped = true;
+            previous?.disconnectSync();
+            if (persisted) await this.replaceDatabaseFile(loadPath);
+            logger.notice(`Now serving docs commit ${metadata?.docsCommitSha ?? 'unknown'} from ${this.dataBasePath}.`);
+            return metadata;
+        } finally {
+            if (!swapped) {
+                connection.disconnectSync();
+                if (persisted) await DuckDBService.removeDatabaseFile(loadPath);
+            }
+        }
+    }
+
+    // Moves a reloaded database file (checkpointed, so complete without its write-ahead log) over the persisted one
+    private async replaceDatabaseFile(loadPath: string): Promise<void> {
+        try {
+            await fs.rm(`${this.databasePath}.wal`, { force: true });
+            await fs.rename(loadPath, this.databasePath);
+        } catch (error) {
+            // E.g. on Windows, where a file in use cannot be replaced: load_info of the old file no longer
+            // matches the Parquet files, so the next start loads them again
+            logger.warning(`Could not replace ${this.databasePath} with the reloaded database; the Parquet files will be loaded again on the next start.`, { error });
+            await DuckDBService.removeDatabaseFile(loadPath).catch(() => undefined);
+            return;
+        }
+        await fs.rm(`${loadPath}.wal`, { force: true });
+    }
+
+    private static async removeDatabaseFile(databasePath: string): Promise<void> {
+        await Promise.all([databasePath, `${databasePath}.wal`].map((file) => fs.rm(file, { force: true })));
+    }
+
+    // Rejects empty data, and files that do not match the row counts their ETL run recorded (e.g. a build still being written)
+    private static async validateTables(connection: DuckDBConnection, metadata: Record<string, any> | null): Promise<void> {
+        const reader = await connection.runAndReadAll(`
+            SELECT
+                (SELECT count(*) FROM api_spec)::INTEGER AS api_spec,
+                (SELECT count(*) FROM docs_content)::INTEGER AS docs_content,
+                (SELECT count(*) FROM docs_navigation)::INTEGER AS docs_navigation,
+                (SELECT count(*) FROM search_vocabulary)::INTEGER AS search_vocabulary,
+                (SELECT count(*) FROM search_doc_stats)::INTEGER AS indexedRows;
+        `);
+        const [counts] = reader.getRowObjects() as any[];
+        if (counts.api_spec === 0 || counts.docs_content === 0 || counts.indexedRows === 0) {
+            throw new Error('Validation failed: api_spec, docs_content or the search index is empty.');
+        }
+        const recorded: Record<string, number> = metadata?.tableRowCounts ? JSON.parse(metadata.tableRowCounts) : {};
+        const mismatches = Object.entries(recorded).filter(([table, rows]) => table in counts && counts[table] !== rows);
+        if (mismatches.length > 0) {
+            const details = mismatches.map(([table, rows]) => `${table} has ${counts[table]} rows, ${rows} recorded`).join(', ');
+            throw new Error(`Validation failed: the files do not match index_metadata.parquet (${details}).`);
+        }
+    }
+
+    // Moves a validated ETL output into DATA_DIR; each rename replaces one file atomically
+    private async promoteFiles(stagingDir: string): Promise<void> {
+        const fileNames = [...DuckDBService.dataSources('').map(({ sourcePath }) => sourcePath), 'api_spec.previous.parquet'];
+        for (const fileName of fileNames) {
+            try {
+                await fs.rename(path.join(stagingDir, fileName), path.join(this.dataBasePath, fileName));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+                // Not produced by this build: drop the older file, which does not belong to it
+                await fs.rm(path.join(this.dataBasePath, fileName), { force: true });
+            }
         }
     }
 
@@ -121,6 +526,33 @@ export class DuckDBService {
         }
     }
 
+    // Runs a task on the query queue, after every query queued before it
+    private enqueue<T>(run: () => Promise<T>): Promise<T> {
+        const task = this.queryQueue.then(run);
+        // Keep the queue going even if this task fails
+        this.queryQueue = task.catch(() => undefined);
+        return task;
+    }
+
+    /**
+     * Runs a query through a cached prepared statement.
+     * Executions are queued so that one statement's bindings are never replaced mid-run.
+     */
+    private runPrepared<T>(sql: string, params: any[], run: (prepared: DuckDBPreparedStatement) => Promise<T>): Promise<T> {
+        return this.enqueue(async () => {
+            let prepared = this.preparedStatements.get(sql);
+            if (!prepared) {
+                prepared = await this.connection!.prepare(sql);
+                this.preparedStatements.set(sql, prepared);
+            }
+            prepared.clearBindings();
+            if (params.length > 0) {
+                prepared.bind(params);
+            }
+            return run(prepared);
+        });
+    }
+
     /**
      * Executes a SQL query and returns all results.
      * @param sql The SQL query string.
@@ -130,19 +562,18 @@ export class DuckDBService {
     // Changed return type and removed generic <T>
     public async executeQuery(sql: string, params: any[] = []): Promise<Record<string, any>[]> {
         await this.ensureInitialized();
-        console.log(`Executing SQL (all rows): ${sql} with params: ${JSON.stringify(params)}`);
+        const startedAt = performance.now();
         try {
-            // Use runAndReadAll to get a reader, then get rows from the reader
-            // Pass params as an array
-            const reader = await (this.connection!).runAndReadAll(sql, params);
+            // Reuse a prepared statement for this SQL text, then read all rows
+            const reader = await this.runPrepared(sql, params, (prepared) => prepared.runAndReadAll());
             // Use getRowObjects for a more convenient format [{col: val, ...}]
             // Removed generic <T> from getRowObjects
             const results = reader.getRowObjects();
-            console.log(`Query returned ${results.length} rows.`);
+            this.logQuery('all rows', sql, params, startedAt, `${results.length} rows`);
             // Cast to 'any' temporarily if strict typing causes issues, or define a proper interface
             return results as any[];
         } catch (error) {
-            console.error(`Error executing DuckDB query: ${sql}`, error);
+            this.logQueryError('all rows', sql, params, startedAt, error);
             throw error; // Re-throw the error for upstream handling
         }
     }
@@ -156,36 +587,52 @@ export class DuckDBService {
     // Changed return type and removed generic <T>
     public async executeQueryFirstRow(sql: string, params: any[] = []): Promise<Record<string, any> | null> {
         await this.ensureInitialized();
-         console.log(`Executing SQL (first row): ${sql} with params: ${JSON.stringify(params)}`);
+        const startedAt = performance.now();
         try {
              // Use runAndReadUntil to potentially limit data read, then get the first row
-             // Pass params as an array
-             const reader = await (this.connection!).runAndReadUntil(sql, 1, params);
+             const reader = await this.runPrepared(sql, params, (prepared) => prepared.runAndReadUntil(1));
              // Removed generic <T> from getRowObjects
              const rows = reader.getRowObjects(); // Get results as objects
              const result = rows.length > 0 ? rows[0] : null;
-             console.log(`Query returned ${result ? 'a row' : 'no rows'}.`);
+             this.logQuery('first row', sql, params, startedAt, result ? 'a row' : 'no rows');
              // Cast to 'any' temporarily if strict typing causes issues
              return result as any | null;
         } catch (error) {
-            console.error(`Error executing DuckDB query (first row): ${sql}`, error);
+            this.logQueryError('first row', sql, params, startedAt, error);
             throw error;
         }
     }
 
+    // SQL text and parameters are only logged at debug level, and only to the server log (never to MCP sessions)
+    private logQuery(mode: string, sql: string, params: any[], startedAt: number, outcome: string): void {
+        if (!logger.isEnabled('debug', { localOnly: true })) return;
+        const durationMs = Math.round((performance.now() - startedAt) * 100) / 100;
+        logger.log('debug', `Query (${mode}) returned ${outcome} in ${durationMs} ms.`, { sql: sql.trim(), params, durationMs }, { localOnly: true });
+    }
+
+    // DuckDB errors can quote parameter values, so they stay in the server log as well
+    private logQueryError(mode: string, sql: string, params: any[], startedAt: number, error: unknown): void {
+        const durationMs = Math.round((performance.now() - startedAt) * 100) / 100;
+        logger.log('error', `DuckDB query (${mode}) failed after ${durationMs} ms: ${error instanceof Error ? error.message : String(error)}`, undefined, { localOnly: true });
+        logger.log('debug', 'Failed query.', { sql: sql.trim(), params }, { localOnly: true });
+    }
+
 
     // Graceful shutdown
     public async close(): Promise<void> {
-        console.log('Closing DuckDB connection and instance...');
+        logger.info('Closing DuckDB connection and instance...');
+        this.watcher?.close();
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.preparedStatements.clear();
         // Removed isClosed check
         if (this.connection) {
             try {
                 // Use disconnectSync as per docs for explicit closing
                 this.connection.disconnectSync();
                 this.connection = null;
-                console.log('DuckDB connection disconnected.');
+                logger.debug('DuckDB connection disconnected.');
             } catch (error) {
-                console.error('Error disconnecting DuckDB connection:', error);
+                logger.error('Error disconnecting DuckDB connection.', { error });
             }
         }
         if (this.instance) {
@@ -193,21 +640,42 @@ export class DuckDBService {
                 // Instance doesn't have an explicit close/terminate in the provided docs for this version
                 // Rely on garbage collection or process exit for instance cleanup
                 this.instance = null;
-                console.log('DuckDB instance reference released.');
+                logger.debug('DuckDB instance reference released.');
             } catch (error) {
-                console.error('Error closing DuckDB database instance:', error);
+                logger.error('Error closing DuckDB database instance.', { error });
             }
         }
     }
 
+    /**
+     * Returns the provenance of the loaded data as recorded by the ETL, or null for data built
+     * before the ETL recorded it.
+     */
+    public async getIndexMetadata(): Promise<Record<string, any> | null> {
+        await this.ensureInitialized();
+        return this.indexMetadata;
+    }
+
     // --- Getters for file paths ---
+    public getDataDir(): string {
+        return this.dataBasePath;
+    }
+
     public getApiSpecPath(): string {
         return this.apiSpecPath;
     }
 
+    public getPreviousApiSpecPath(): string {
+        return this.previousApiSpecPath;
+    }
+
     public getDocsContentPath(): string {
         return this.docsContentPath;
     }
+
+    public getDocsNavigationPath(): string {
+        return this.docsNavigationPath;
+    }
 }
 
 // Export a singleton instance (optional, depends on app structure)
@@ -0,0 +1,122 @@
+import fs from 'fs';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel, LoggingLevelSchema, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+// Severity order of the MCP logging levels (RFC 5424 syslog levels)
+const LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const LOGGER_NAME = 'elevenlabs-docs';
+
+// Messages with localOnly stay in the server log: sessions are shared process-wide, so data from one
+// client's requests (SQL parameters) must not be sent to another client's session
+export interface LogOptions {
+    localOnly?: boolean;
+}
+
+function severity(level: LoggingLevel): number {
+    return LEVELS.indexOf(level);
+}
+
+// JSON.stringify that copes with BigInt values and Error objects
+function serialize(value: unknown): string {
+    return JSON.stringify(value, (_key, v) => {
+        if (typeof v === 'bigint') return v.toString();
+        if (v instanceof Error) return { name: v.name, message: v.message, stack: v.stack };
+        return v;
+    });
+}
+
+/**
+ * Leveled logger that never writes to stdout, which the stdio transport uses for protocol messages.
+ * - Lines go to stderr, or are appended to LOG_FILE when it is set
+ * - LOG_LEVEL sets the minimum level (debug, info, notice, warning, error, ...; default info)
+ * - MCP sessions that call logging/setLevel also receive notifications at or above their chosen level,
+ *   except for localOnly messages
+ */
+export class Logger {
+    private level: LoggingLevel;
+    private output: NodeJS.WritableStream;
+
+    // Sessions that asked for log notifications, with their minimum level
+    private sessions = new Map<Server, LoggingLevel>();
+
+    constructor() {
+        const configured = LoggingLevelSchema.safeParse((process.env.LOG_LEVEL ?? 'info').toLowerCase());
+        this.level = configured.success ? configured.data : 'info';
+        this.output = process.env.LOG_FILE
+            ? fs.createWriteStream(process.env.LOG_FILE, { flags: 'a' })
+            : process.stderr;
+        if (!configured.success) {
+            this.warning(`Invalid LOG_LEVEL "${process.env.LOG_LEVEL}"; using "info".`);
+        }
+    }
+
+    public isEnabled(level: LoggingLevel, options: LogOptions = {}): boolean {
+        if (severity(level) >= severity(this.level)) return true;
+        return !options.localOnly &&
+            [...this.sessions.values()].some((sessionLevel) => severity(level) >= severity(sessionLevel));
+    }
+
+    public debug(message: string, data?: Record<string, unknown>): void {
+        this.log('debug', message, data);
+    }
+
+    public info(message: string, data?: Record<string, unknown>): void {
+        this.log('info', message, data);
+    }
+
+    public notice(message: string, data?: Record<string, unknown>): void {
+        this.log('notice', message, data);
+    }
+
+    public warning(message: string, data?: Record<string, unknown>): void {
+        this.log('warning', message, data);
+    }
+
+    public error(message: string, data?: Record<string, unknown>): void {
+        this.log('error', message, data);
+    }
+
+    public critical(message: string, data?: Record<string, unknown>): void {
+        this.log('critical', message, data);
+    }
+
+    public log(level: LoggingLevel, message: string, data?: Record<string, unknown>, options: LogOptions = {}): void {
+        if (severity(level) >= severity(this.level)) {
+            const details = data === undefined ? '' : ` ${serialize(data)}`;
+            this.output.write(`${new Date().toISOString()} [${level.toUpperCase()}] ${message}${details}\n`);
+        }
+        if (options.localOnly) return;
+
+        for (const [server, sessionLevel] of this.sessions) {
+            if (severity(level) < severity(sessionLevel)) continue;
+            // Round-trip through JSON so BigInt values and Errors are serializable
+            const payload = data === undefined ? message : JSON.parse(serialize({ message, ...data }));
+            server.sendLoggingMessage({ level, logger: LOGGER_NAME, data: payload }).catch(() => {
+                // The session went away; stop sending to it
+                this.sessions.delete(server);
+            });
+        }
+    }
+
+    /**
+     * Handles logging/setLevel for a server. The session starts receiving log notifications
+     * once it has chosen a level, and stops when it closes.
+     */
+    public attachServer(server: Server): void {
+        server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+            if (!this.sessions.has(server)) {
+                const onclose = server.onclose;
+                server.onclose = () => {
+                    this.sessions.delete(server);
+                    onclose?.();
+                };
+            }
+            this.sessions.set(server, request.params.level);
+            this.debug(`Session log level set to ${request.params.level}.`);
+            return {};
+        });
+    }
+}
+
+export const logger = new Logger();
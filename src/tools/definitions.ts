@@ -3,20 +3,28 @@ import { Tool } from "@modelcontextprotocol/sdk/types.js";
 // Tool definitions
 /**
  * Queries DuckDB Parquet files for ElevenLabs documentation and API spec search.
- * - docs_content.parquet schema: filePath, fileName, content, lineNumber, heading1, heading2, heading3, contentType, language, order
+ * - docs_content.parquet schema: filePath, fileName, content, lineNumber, heading1, heading2, heading3, title, subtitle, slug, component, contentType, language, order
  * - api_spec.parquet schema: filePath, fileName, content, lineNumber, summary, description, apiPath, method, order
- * Returns: Array of results with { name, path, snippet, repository, url, lineNumber, section }
+ * - Keyword queries are ranked by BM25 over an in-process inverted index (headings, summary and apiPath weighted above body text)
+ * - Docs snippets include `contextBlocks` neighbouring blocks (by order); query terms are **bolded**, code blocks keep their fence
+ * - Paginated with an opaque cursor; ordering is stable, so paging yields every match exactly once
+ * - Query syntax: AND by default, "phrases", OR, -exclusions, field filters method: path: type: source: lang: heading: file:
+ * - Few or no matches: suggestions with misspelled words corrected (search_vocabulary.parquet) and close schema/file names
+ * - Every response carries docsCommitSha, the docs commit the index was built from (index_metadata.parquet)
+ * - Rows carry the docs source they were indexed from (docs-sources.json); source:<name> filters on it
+ * Returns: { results: [{ name, title, path, snippet, source, repository, url, sourceUrl, lineNumber, section, component, score, resourceUri }], totalMatches, nextCursor, suggestions, docsCommitSha }
  */
 export const searchDocsTool: Tool = {
   name: "elevenlabs_search_docs",
   description:
-    "Search ElevenLabs docs and API spec (from DuckDB Parquet files) by keyword. Use this tool to discover request/response models (e.g. UpdatePhoneNumberRequest), schema definitions, and documentation files (e.g. streaming.mdx). Model/schema names and doc file names in results can be used for direct follow-up queries. Direct file name queries return the full document content. Results include file name, path, snippet, and section.",
+    "Search ElevenLabs docs and API spec (from DuckDB Parquet files) by keyword. Use this tool to discover request/response models (e.g. UpdatePhoneNumberRequest), schema definitions, and documentation files (e.g. streaming.mdx). Model/schema names and doc file names in results can be used for direct follow-up queries. Direct file name queries return the full document content. Supports phrases, OR, exclusions and field filters (see the query parameter). Keyword results are ranked by relevance. When little or nothing matches, suggestions offers corrected queries and close schema or file names to try next. Results include file name, page title, path, snippet, section and score.",
   inputSchema: {
     type: "object",
     properties: {
       query: {
         type: "string",
-        description: "Search query or keywords (applies to content, summary, description, apiPath, method fields)",
+        description:
+          'Search query. Words are ANDed; "quoted phrase" matches exact wording; word OR word matches either; -word excludes. Field filters: method:POST, path:/v1/text-to-speech (prefix, * wildcards), type:api|schema|channel, source:docs|api or source:<docs source name>, lang:python, heading:"Voice settings", file:streaming.mdx. Example: "voice settings" method:POST -deprecated',
       },
       includeFullContent: {
         type: "boolean",
@@ -25,7 +33,7 @@ export const searchDocsTool: Tool = {
       },
       limit: {
         type: "number",
-        description: "Maximum number of results to return (default 10)",
+        description: "Maximum number of results to return (default 10, max 50)",
         default: 10,
       },
       includeSchemaDefinition: {
@@ -33,6 +41,15 @@ export const searchDocsTool: Tool = {
         description: "If true, include the schemaDefinition column (full JSON schema) in results (API spec search only).",
         default: false
       },
+      contextBlocks: {
+        type: "number",
+        description: "Number of neighbouring blocks from the same page to include before and after a docs match in the snippet (default 1, max 5, 0 for the matching block only).",
+        default: 1,
+      },
+      cursor: {
+        type: "string",
+        description: "Opaque cursor from a previous response's nextCursor, to fetch the next page of the same query.",
+      },
     },
     required: ["query"],
   },
@@ -46,24 +63,648 @@ export const searchDocsTool: Tool = {
           type: "object",
           properties: {
             name: { type: "string" },
+            title: { type: "string" },
             path: { type: "string" },
             snippet: { type: "string" },
+            source: { type: "string" },
             repository: { type: "string" },
             url: { type: "string" },
+            sourceUrl: { type: "string" },
             lineNumber: { type: "number" },
             section: { type: "string" },
-            fullContent: { type: "string" }
+            component: { type: "string" },
+            score: { type: "number" },
+            resourceUri: { type: "string" },
+            fullContent: { type: "string" },
+            schemaDefinition: { type: "string" }
           },
-          required: ["name", "path", "snippet", "repository", "url"]
+          required: ["name", "path", "snippet", "repository", "url", "score"]
+        }
+      },
+      totalMatches: { type: "number" },
+      nextCursor: { type: "string" },
+      suggestions: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            query: { type: "string" },
+            kind: { type: "string", enum: ["spelling", "schema", "file"] }
+          },
+          required: ["query", "kind"]
+        }
+      },
+      docsCommitSha: { type: ["string", "null"] }
+    },
+    required: ["results", "totalMatches", "docsCommitSha"]
+  }
+};
+
+/**
+ * Fetches a single document from docs_content.parquet by exact path.
+ * - Resolves `path` against filePath/fileName; ambiguous or missing paths return the closest candidates
+ * - Optionally slices to one section (matched against heading1/2/3) or a 1-based line range
+ * Returns: { name, title, subtitle, path, repository, url, sourceUrl, breadcrumb, outline, startLine, endLine, totalLines, content }
+ */
+export const getDocTool: Tool = {
+  name: "elevenlabs_get_doc",
+  description:
+    "Fetch one ElevenLabs documentation page by path (e.g. fern/docs/pages/capabilities/streaming.mdx or streaming.mdx). Returns the full text, or only the part under a given heading (section) or a given line range, together with the heading breadcrumb and the page outline. Use paths returned by elevenlabs_search_docs.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      path: {
+        type: "string",
+        description: "Document path (filePath) or unique file name, as returned in search results",
+      },
+      section: {
+        type: "string",
+        description: "Heading text of the section to return (case-insensitive). Cannot be combined with startLine/endLine.",
+      },
+      startLine: {
+        type: "number",
+        description: "First line to return (1-based, inclusive)",
+      },
+      endLine: {
+        type: "number",
+        description: "Last line to return (1-based, inclusive)",
+      },
+    },
+    required: ["path"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      title: { type: ["string", "null"] },
+      subtitle: { type: ["string", "null"] },
+      path: { type: "string" },
+      repository: { type: "string" },
+      url: { type: "string" },
+      sourceUrl: { type: "string" },
+      breadcrumb: { type: "array", items: { type: "string" } },
+      outline: { type: "array", items: { type: "string" } },
+      startLine: { type: "number" },
+      endLine: { type: "number" },
+      totalLines: { type: "number" },
+      content: { type: "string" }
+    },
+    required: ["name", "path", "breadcrumb", "startLine", "endLine", "totalLines", "content"]
+  }
+};
+
+/**
+ * Returns the complete description of one API operation from api_spec.parquet.
+ * - Looks up by method + apiPath or by operationId (operationDefinition column)
+ * Returns: { method, apiPath, operationId, summary, description, tags, parameters, requestBody, responses, path, url, sourceUrl }
+ */
+export const getEndpointTool: Tool = {
+  name: "elevenlabs_get_endpoint",
+  description:
+    "Get the complete description of one ElevenLabs API endpoint: summary, description, tags, path/query/header parameters, request body schema per content type and response schemas per status code. Named schemas nested in these schemas appear as { \"$schemaRef\": \"<name>\" }; elevenlabs_describe_schema expands them. Identify the endpoint by method + apiPath (e.g. POST /v1/text-to-speech/{voice_id}) or by operationId.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      method: {
+        type: "string",
+        description: "HTTP method (e.g. GET, POST). Optional if the path has a single operation.",
+      },
+      apiPath: {
+        type: "string",
+        description: "API path exactly as in the spec, e.g. /v1/text-to-speech/{voice_id}",
+      },
+      operationId: {
+        type: "string",
+        description: "OpenAPI operationId, as an alternative to method + apiPath",
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      method: { type: "string" },
+      apiPath: { type: "string" },
+      operationId: { type: "string" },
+      summary: { type: "string" },
+      description: { type: "string" },
+      tags: { type: "array", items: { type: "string" } },
+      deprecated: { type: "boolean" },
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "array" },
+          query: { type: "array" },
+          header: { type: "array" },
+          cookie: { type: "array" }
+        }
+      },
+      requestBody: { type: "object" },
+      responses: { type: "object" },
+      path: { type: "string" },
+      repository: { type: "string" },
+      url: { type: "string" },
+      sourceUrl: { type: "string" }
+    },
+    required: ["method", "apiPath", "parameters", "responses"]
+  }
+};
+
+/**
+ * Generates a runnable request sample for one API operation from its indexed operationDefinition.
+ * - Targets: curl, TypeScript fetch, Python requests
+ * Returns: { target, method, apiPath, operationId, contentType, baseUrl, code }
+ */
+export const generateRequestSampleTool: Tool = {
+  name: "elevenlabs_generate_request_sample",
+  description:
+    "Generate a ready-to-run request sample (curl, TypeScript fetch or Python requests) for an ElevenLabs API endpoint. The sample is derived from the indexed API spec: HTTP method, path parameters, the xi-api-key header, JSON or multipart content type, and an example body built from the request schema's required fields, enums and defaults.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      target: {
+        type: "string",
+        enum: ["curl", "typescript", "python"],
+        description: "Language/tool of the generated sample",
+      },
+      method: {
+        type: "string",
+        description: "HTTP method (e.g. GET, POST). Optional if the path has a single operation.",
+      },
+      apiPath: {
+        type: "string",
+        description: "API path exactly as in the spec, e.g. /v1/text-to-speech/{voice_id}",
+      },
+      operationId: {
+        type: "string",
+        description: "OpenAPI operationId, as an alternative to method + apiPath",
+      },
+      contentType: {
+        type: "string",
+        description: "Request content type to use when the endpoint accepts several (defaults to JSON, then multipart)",
+      },
+    },
+    required: ["target"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      target: { type: "string" },
+      method: { type: "string" },
+      apiPath: { type: "string" },
+      operationId: { type: "string" },
+      contentType: { type: "string" },
+      baseUrl: { type: "string" },
+      code: { type: "string" }
+    },
+    required: ["target", "method", "apiPath", "code"]
+  }
+};
+
+/**
+ * Returns the docs sidebar navigation tree, parsed from fern/docs.yml at ETL time (docs_navigation.parquet).
+ * - Optionally filtered to one tab and/or section; pages link to their indexed docs_content rows via filePath
+ * Returns: { title, tabs, tree }
+ */
+export const docsStructureTool: Tool = {
+  name: "elevenlabs_docs_structure",
+  description:
+    "Browse the ElevenLabs docs navigation (tabs, sections, nested sections, pages, links and changelogs) the way the sidebar shows it. Optionally filter to one tab or section. Each page includes its filePath, which can be passed to elevenlabs_get_doc, and whether it is indexed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      tab: {
+        type: "string",
+        description: "Only return this tab (tab key or display name, case-insensitive)",
+      },
+      section: {
+        type: "string",
+        description: "Only return sections with this title (case-insensitive), at any depth",
+      },
+      maxDepth: {
+        type: "number",
+        description: "Maximum depth of the returned tree (1 = only the top-level nodes)",
+      },
+      includeHidden: {
+        type: "boolean",
+        description: "If true, include pages and sections marked hidden in docs.yml",
+        default: false
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      title: { type: "string" },
+      tabs: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { tab: { type: "string" }, title: { type: "string" } }
+        }
+      },
+      tree: { type: "array", items: { type: "object" } }
+    },
+    required: ["title", "tabs", "tree"]
+  }
+};
+
+/**
+ * Renders a named API schema (api_spec.parquet schemaDefinition) as a flattened field table.
+ * - One row per property with a dotted path (array items as `[]`, map values as `{key}`)
+ * - anyOf/oneOf variants are expanded with a variant label; allOf parts are merged; "or null" becomes nullable
+ * - Recursive references are marked instead of expanded; `depth` limits how far nested objects are expanded
+ * Returns: { name, description, type, variants, fields, table, path, repository, url, sourceUrl, resourceUri }
+ */
+export const describeSchemaTool: Tool = {
+  name: "elevenlabs_describe_schema",
+  description:
+    "Describe an ElevenLabs API schema (e.g. VoiceSettingsResponseModel, Body_text_to_speech) as a flat list of fields: dotted path, type, required, nullable, enum values, default and description, plus a markdown table. Use it to answer what goes in a request body or object without parsing the raw JSON schema. Schema names come from elevenlabs_search_docs and elevenlabs_get_endpoint.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      schemaName: {
+        type: "string",
+        description: "Schema name as in the API spec, e.g. VoiceSettingsResponseModel",
+      },
+      depth: {
+        type: "number",
+        description: "How many levels of nested objects to expand (default 3, max 10)",
+        default: 3,
+      },
+    },
+    required: ["schemaName"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      name: { type: "string" },
+      description: { type: ["string", "null"] },
+      type: { type: "string" },
+      variants: { type: "array", items: { type: "string" } },
+      fields: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            path: { type: "string" },
+            type: { type: "string" },
+            required: { type: "boolean" },
+            nullable: { type: "boolean" },
+            enum: { type: "array" },
+            default: {},
+            format: { type: "string" },
+            description: { type: "string" },
+            variant: { type: "string" },
+            recursiveRef: { type: "string" },
+            truncated: { type: "boolean" }
+          },
+          required: ["path", "type", "required", "nullable"]
+        }
+      },
+      table: { type: "string" },
+      path: { type: "string" },
+      repository: { type: "string" },
+      url: { type: "string" },
+      sourceUrl: { type: "string" },
+      resourceUri: { type: "string" }
+    },
+    required: ["name", "type", "fields", "table"]
+  }
+};
+
+/**
+ * Cross-references schemas and endpoints using the usedBy column of api_spec.parquet.
+ * - Given schemaName: the endpoints that take or return it, with the role (requestBody, response + status, parameter)
+ *   and, for nested uses, the field path and the top-level schema it appears in
+ * - WebSocket channels whose messages carry the schema are listed separately, with the message name and direction
+ * - Given an endpoint (method + apiPath, or operationId): every named schema it touches, including nested ones
+ * Returns: { direction, schemaName, endpoints, channels } or { direction, method, apiPath, operationId, schemas }
+ */
+export const schemaUsageTool: Tool = {
+  name: "elevenlabs_schema_usage",
+  description:
+    "Cross-reference ElevenLabs API schemas and endpoints. Given a schema name (e.g. GetConversationResponseModel), list the endpoints that use it as request body, response (per status code) or parameter, and the WebSocket channels whose messages carry it, directly or nested inside another schema. Given an endpoint, list every schema it touches, including nested ones. Use it to judge the impact of a model change.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      schemaName: {
+        type: "string",
+        description: "Schema name, e.g. GetConversationResponseModel. Omit when looking up an endpoint",
+      },
+      method: {
+        type: "string",
+        description: "HTTP method of the endpoint, e.g. POST",
+      },
+      apiPath: {
+        type: "string",
+        description: "API path of the endpoint, e.g. /v1/text-to-speech/{voice_id}",
+      },
+      operationId: {
+        type: "string",
+        description: "OpenAPI operationId of the endpoint, as an alternative to method + apiPath",
+      },
+      includeNested: {
+        type: "boolean",
+        description: "If false, only report direct uses (not schemas nested inside other schemas)",
+        default: true
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      direction: { type: "string", enum: ["schema", "endpoint"] },
+      schemaName: { type: "string" },
+      method: { type: "string" },
+      apiPath: { type: "string" },
+      operationId: { type: ["string", "null"] },
+      endpoints: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            method: { type: "string" },
+            apiPath: { type: "string" },
+            operationId: { type: ["string", "null"] },
+            usages: { type: "array", items: { type: "object" } },
+            resourceUri: { type: "string" }
+          }
+        }
+      },
+      channels: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            address: { type: "string" },
+            usages: { type: "array", items: { type: "object" } }
+          }
+        }
+      },
+      schemas: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            schemaName: { type: "string" },
+            usages: { type: "array", items: { type: "object" } },
+            resourceUri: { type: "string" }
+          }
         }
       }
     },
-    required: ["results"]
+    required: ["direction"]
   }
 };
 
+/**
+ * Searches only the fenced code blocks of docs_content.parquet (contentType = 'code').
+ * - Filters combine: language (with aliases, e.g. curl covers bash/shell), apiPath the code calls
+ *   ({param} placeholders match concrete values), SDK call (snake_case and camelCase both match), keywords
+ * - Blocks are returned whole, with the heading breadcrumb and the paragraph just before them
+ * Returns: { examples: [{ language, code, breadcrumb, intro, name, path, lineNumber, source, repository, url, sourceUrl, resourceUri }], totalMatches, docsCommitSha }
+ */
+export const findCodeExamplesTool: Tool = {
+  name: "elevenlabs_find_code_examples",
+  description:
+    "Find working code examples in the ElevenLabs docs. Searches only fenced code blocks and returns each block whole, with its heading breadcrumb and the paragraph that introduces it. Filter by language (python, typescript, javascript, curl), by the API path the code calls (e.g. /v1/text-to-speech/{voice_id}/stream), by SDK call (e.g. text_to_speech.convert) and by keywords. At least one filter is required.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Keywords that must each appear in the code, its headings or the paragraph before it",
+      },
+      language: {
+        type: "string",
+        description: "Code language: python, typescript, javascript, curl (bash/shell) or any fence language used in the docs",
+      },
+      apiPath: {
+        type: "string",
+        description: "API path the code calls, e.g. /v1/text-to-speech/{voice_id}; {param} placeholders match concrete values",
+      },
+      sdkCall: {
+        type: "string",
+        description: "SDK method the code calls, e.g. text_to_speech.convert or textToSpeech.convert",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of examples to return (default 5, max 20)",
+        default: 5,
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      examples: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            language: { type: ["string", "null"] },
+            code: { type: "string" },
+            breadcrumb: { type: "array", items: { type: "string" } },
+            intro: { type: ["string", "null"] },
+            name: { type: "string" },
+            path: { type: "string" },
+            lineNumber: { type: "number" },
+            source: { type: "string" },
+            repository: { type: "string" },
+            url: { type: "string" },
+            sourceUrl: { type: "string" },
+            resourceUri: { type: "string" }
+          },
+          required: ["code", "path"]
+        }
+      },
+      totalMatches: { type: "number" },
+      docsCommitSha: { type: ["string", "null"] }
+    },
+    required: ["examples", "totalMatches", "docsCommitSha"]
+  }
+};
 
+/**
+ * Compares the current api_spec.parquet with the previous build's snapshot (api_spec.previous.parquet under DATA_DIR).
+ * - Endpoints added/removed, schemas added/removed, and schema fields added, removed, retyped, made required/optional or with enum changes
+ * - Each change is flagged breaking or not, based on whether clients send the schema (request body, parameter) or read it (response)
+ * Returns: { previous, current, summary: { breaking, nonBreaking }, endpoints: { added, removed }, schemas: { added, removed, changed }, markdown }
+ */
+export const apiChangesTool: Tool = {
+  name: "elevenlabs_api_changes",
+  description:
+    "Report what changed in the ElevenLabs API between the previous and the current docs index build: endpoints added and removed, schemas added and removed, and schema fields whose presence, type, required flag or enum values changed. Every change is flagged as breaking or non-breaking. Use format=markdown for a readable report.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      format: {
+        type: "string",
+        enum: ["json", "markdown"],
+        description: "json (default) returns the structured report; markdown also includes it rendered as a markdown document",
+        default: "json",
+      },
+      breakingOnly: {
+        type: "boolean",
+        description: "If true, only list breaking changes (the summary still counts all changes)",
+        default: false,
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      previous: { type: "object", properties: { path: { type: "string" }, modifiedAt: { type: ["string", "null"] } } },
+      current: { type: "object", properties: { path: { type: "string" }, modifiedAt: { type: ["string", "null"] } } },
+      summary: { type: "object", properties: { breaking: { type: "number" }, nonBreaking: { type: "number" } } },
+      endpoints: {
+        type: "object",
+        properties: {
+          added: { type: "array", items: { type: "object" } },
+          removed: { type: "array", items: { type: "object" } }
+        }
+      },
+      schemas: {
+        type: "object",
+        properties: {
+          added: { type: "array", items: { type: "object" } },
+          removed: { type: "array", items: { type: "object" } },
+          changed: { type: "array", items: { type: "object" } }
+        }
+      },
+      markdown: { type: "string" }
+    },
+    required: ["previous", "current", "summary", "endpoints", "schemas"]
+  }
+};
+
+/**
+ * Describes the loaded docs index, to tell whether answers may be stale.
+ * - Docs commit SHA and date the Parquet files were built from, build time and ETL version
+ * - Rows written per table and the files that failed to parse
+ * - The commit of every indexed docs source
+ * Returns: { docsCommitSha, docsCommitDate, builtAt, etlVersion, tableRowCounts, failedFileCount, failedFiles, sources, dataDir }
+ */
+export const indexInfoTool: Tool = {
+  name: "elevenlabs_index_info",
+  description:
+    "Show which version of the ElevenLabs docs the server answers from: the docs commit SHA and date the index was built from, when it was built and by which ETL version, the row count of each table, the files that failed to parse, and the commit of each indexed docs source. Search results carry the same docsCommitSha.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      docsCommitSha: { type: ["string", "null"] },
+      docsCommitDate: { type: ["string", "null"] },
+      builtAt: { type: ["string", "null"] },
+      etlVersion: { type: ["string", "null"] },
+      tableRowCounts: { type: "object", additionalProperties: { type: "number" } },
+      failedFileCount: { type: ["number", "null"] },
+      failedFiles: { type: "array", items: { type: "string" } },
+      sources: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            repository: { type: "string" },
+            commitSha: { type: ["string", "null"] },
+            commitDate: { type: ["string", "null"] }
+          },
+          required: ["name", "repository", "commitSha", "commitDate"]
+        }
+      },
+      dataDir: { type: "string" }
+    },
+    required: ["docsCommitSha", "docsCommitDate", "builtAt", "etlVersion", "tableRowCounts", "failedFileCount", "failedFiles", "sources", "dataDir"]
+  }
+};
 
+/**
+ * Rebuilds the index from the local docs sources without restarting the server (requires ENABLE_REINDEX=true).
+ * - Runs etl/run-etl.mjs in a child process into a staging directory, with progress notifications per step
+ * - The new Parquet files replace the current ones only if they load and validate; queries keep being answered meanwhile
+ * Returns: { previousDocsCommitSha, index: { docsCommitSha, docsCommitDate, builtAt, etlVersion, tableRowCounts, failedFileCount, failedFiles, sources, dataDir }, durationMs }
+ */
+export const reindexTool: Tool = {
+  name: "elevenlabs_reindex",
+  description:
+    "Rebuild the ElevenLabs docs index from the server's local docs checkout and switch to it without a restart. Runs the ETL, validates the result and only then swaps it in; searches keep working on the current index meanwhile. Takes a while; send a progress token to follow the steps. Only available when the server runs with ENABLE_REINDEX=true.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      previousDocsCommitSha: { type: ["string", "null"] },
+      index: { type: "object" },
+      durationMs: { type: "number" }
+    },
+    required: ["previousDocsCommitSha", "index", "durationMs"]
+  }
+};
+
+/**
+ * Generates TypeScript interfaces, and optionally zod schemas, from the schemas in api_spec.parquet.
+ * - Input: schema names, or an endpoint (its request body and success responses)
+ * - Nested objects, string-literal enums, nullable and optional fields, oneOf/anyOf unions, allOf intersections, arrays and maps
+ * - Nested named schemas are declared once and referenced by name; recursive references use z.lazy
+ * Returns: { roots, types, zod, endpoint, code, docsCommitSha }
+ */
+export const generateTypesTool: Tool = {
+  name: "elevenlabs_generate_types",
+  description:
+    "Generate TypeScript interfaces, and optionally zod validators, for ElevenLabs API models from the indexed API spec. Pass schema names (e.g. VoiceSettingsResponseModel), or an endpoint to get its request body and success response types. Enums become string-literal unions, nullable fields '| null', optional fields '?', oneOf/anyOf unions, and each schema's description a JSDoc comment. Nested named schemas are emitted once and referenced by name, dependencies first.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      schemaNames: {
+        type: "array",
+        items: { type: "string" },
+        description: "Schema names as in the API spec, e.g. [\"VoiceSettingsResponseModel\"]. Alternative to an endpoint.",
+      },
+      method: {
+        type: "string",
+        description: "HTTP method of the endpoint (e.g. GET, POST). Optional if the path has a single operation.",
+      },
+      apiPath: {
+        type: "string",
+        description: "API path exactly as in the spec, e.g. /v1/text-to-speech/{voice_id}",
+      },
+      operationId: {
+        type: "string",
+        description: "OpenAPI operationId, as an alternative to method + apiPath",
+      },
+      zod: {
+        type: "boolean",
+        description: "Also emit a zod schema (<Name>Schema) for each type (default: false)",
+        default: false,
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      roots: { type: "array", items: { type: "string" } },
+      types: { type: "array", items: { type: "string" } },
+      zod: { type: "boolean" },
+      endpoint: {
+        type: "object",
+        properties: {
+          method: { type: "string" },
+          apiPath: { type: "string" },
+          operationId: { type: ["string", "null"] }
+        }
+      },
+      code: { type: "string" },
+      docsCommitSha: { type: ["string", "null"] }
+    },
+    required: ["roots", "types", "zod", "code", "docsCommitSha"]
+  }
+};
 
 // Export all tools
-export const allTools = [searchDocsTool];
+export const allTools = [searchDocsTool, getDocTool, getEndpointTool, generateRequestSampleTool, docsStructureTool, describeSchemaTool, schemaUsageTool, findCodeExamplesTool, apiChangesTool, indexInfoTool, reindexTool, generateTypesTool];
@@ -0,0 +1,138 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { timingSafeEqual } from "node:crypto";
+import { parseArgs } from "node:util";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { logger } from "../services/Logger.js";
+import { TransportConfig } from "../types/interfaces.js";
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/health";
+
+/**
+ * Reads the transport settings from CLI flags, falling back to environment variables:
+ * --transport / MCP_TRANSPORT (stdio or sse), --host / MCP_HOST, --port / MCP_PORT.
+ * The bearer token is only read from MCP_AUTH_TOKEN so it does not show up in process listings.
+ */
+export function parseTransportConfig(argv: string[]): TransportConfig {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+  });
+
+  const transport = values.transport ?? process.env.MCP_TRANSPORT ?? "stdio";
+  if (transport !== "stdio" && transport !== "sse") {
+    throw new Error(`Invalid transport "${transport}". Expected "stdio" or "sse".`);
+  }
+
+  const portValue = values.port ?? process.env.MCP_PORT ?? "3000";
+  const port = Number(portValue);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${portValue}".`);
+  }
+
+  return {
+    transport,
+    host: values.host ?? process.env.MCP_HOST ?? "127.0.0.1",
+    port,
+    authToken: process.env.MCP_AUTH_TOKEN || undefined,
+  };
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+  if (!authToken) return true;
+  const match = (req.headers.authorization ?? "").match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(match[1].trim());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendText(res: ServerResponse, status: number, text: string, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "text/plain", ...headers }).end(text);
+}
+
+/**
+ * Serves MCP over HTTP with Server-Sent Events:
+ * - GET /sse opens a session; the first event tells the client where to POST its messages
+ * - POST /messages?sessionId=... delivers a client message to that session
+ * - GET /health reports liveness and the number of open sessions (no auth)
+ * Every session gets its own Server from createServer; they all share one DuckDBService.
+ */
+export async function startSseServer(
+  config: TransportConfig,
+  createServer: () => Server
+): Promise<void> {
+  const sessions = new Map<string, SSEServerTransport>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    try {
+      if (req.method === "GET" && url.pathname === HEALTH_PATH) {
+        res.writeHead(200, { "Content-Type": "application/json" })
+          .end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+        return;
+      }
+
+      if (url.pathname !== SSE_PATH && url.pathname !== MESSAGES_PATH) {
+        sendText(res, 404, "Not found");
+        return;
+      }
+
+      if (!isAuthorized(req, config.authToken)) {
+        sendText(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+        return;
+      }
+
+      if (req.method === "GET" && url.pathname === SSE_PATH) {
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer();
+        sessions.set(transport.sessionId, transport);
+        // The Server owns the transport's onclose once connected, so clean up through it
+        server.onclose = () => {
+          sessions.delete(transport.sessionId);
+          logger.info(`SSE session closed: ${transport.sessionId} (${sessions.size} open)`);
+        };
+        await server.connect(transport);
+        logger.info(`SSE session opened: ${transport.sessionId} (${sessions.size} open)`);
+        return;
+      }
+
+      if (req.method === "POST" && url.pathname === MESSAGES_PATH) {
+        const sessionId = url.searchParams.get("sessionId");
+        const transport = sessionId ? sessions.get(sessionId) : undefined;
+        if (!transport) {
+          sendText(res, 404, `Unknown session: ${sessionId ?? "(missing sessionId)"}`);
+          return;
+        }
+        await transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendText(res, 405, "Method not allowed");
+    } catch (error) {
+      logger.error("Error handling HTTP request.", { error });
+      if (!res.headersSent) {
+        sendText(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.host, () => resolve());
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : config.port;
+  logger.info(
+    `ElevenLabs MCP Server running on http://${config.host}:${port}${SSE_PATH}` +
+      (config.authToken ? " (bearer token required)" : "")
+  );
+}
@@ -4,21 +4,403 @@ export interface SearchDocsArgs {
   limit?: number;
   includeFullContent?: boolean;
   includeSchemaDefinition?: boolean;
+  contextBlocks?: number;
+  cursor?: string;
 }
 
 export interface SearchDocsResultItem {
   name: string;
+  // Page title from the frontmatter (or first heading) for docs; summary or schema name for API rows
+  title?: string;
   path: string;
+  // Docs source the row was indexed from (see docs-sources.json)
+  source: string;
   repository: string;
+  // Published docs or API reference page (the source file when it is not published); sourceUrl is always the source file
   url: string;
+  sourceUrl: string;
   snippet: string;
   section?: string;
+  // JSX components a docs block sits in, e.g. "Tabs > Tab (Python)"
+  component?: string;
+  score: number;
+  resourceUri?: string;
+}
+
+export interface SearchSuggestion {
+  query: string;
+  kind: "spelling" | "schema" | "file";
 }
 
 export interface SearchDocsResult {
   results: SearchDocsResultItem[];
+  totalMatches: number;
+  nextCursor?: string;
+  suggestions?: SearchSuggestion[];
+  // Docs commit the searched index was built from (null if unknown)
+  docsCommitSha: string | null;
 }
 
 export interface GetDocArgs {
   path: string;
+  section?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface GetDocResult {
+  name: string;
+  // From the page's frontmatter (null if it has none)
+  title: string | null;
+  subtitle: string | null;
+  path: string;
+  repository: string;
+  url: string;
+  sourceUrl: string;
+  breadcrumb: string[];
+  outline: string[];
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  content: string;
+}
+
+export interface GetEndpointArgs {
+  method?: string;
+  apiPath?: string;
+  operationId?: string;
+}
+
+export interface EndpointParameter {
+  name: string;
+  in: string;
+  required: boolean;
+  description: string | null;
+  schema: any;
+}
+
+export interface EndpointContentSchema {
+  schemaName: string | null;
+  schema: any;
+}
+
+// Shape of the operationDefinition column in api_spec.parquet
+export interface OperationDefinition {
+  operationId: string | null;
+  tags: string[];
+  deprecated: boolean;
+  servers?: string[];
+  parameters: EndpointParameter[];
+  requestBody: {
+    required: boolean;
+    description: string | null;
+    content: Record<string, EndpointContentSchema>;
+  } | null;
+  responses: Record<string, {
+    description: string | null;
+    content: Record<string, EndpointContentSchema>;
+  }>;
+}
+
+export interface GetEndpointResult {
+  method: string;
+  apiPath: string;
+  operationId: string | null;
+  summary: string | null;
+  description: string | null;
+  tags: string[];
+  deprecated: boolean;
+  parameters: {
+    path: EndpointParameter[];
+    query: EndpointParameter[];
+    header: EndpointParameter[];
+    cookie: EndpointParameter[];
+  };
+  requestBody: OperationDefinition["requestBody"];
+  responses: OperationDefinition["responses"];
+  path: string;
+  repository: string;
+  url: string;
+  sourceUrl: string;
+}
+
+export type RequestSampleTarget = "curl" | "typescript" | "python";
+
+export interface GenerateRequestSampleArgs extends GetEndpointArgs {
+  target: RequestSampleTarget;
+  contentType?: string;
+}
+
+export interface GenerateRequestSampleResult {
+  target: RequestSampleTarget;
+  method: string;
+  apiPath: string;
+  operationId: string | null;
+  contentType: string | null;
+  baseUrl: string;
+  code: string;
+}
+
+export interface DocsStructureArgs {
+  tab?: string;
+  section?: string;
+  maxDepth?: number;
+  includeHidden?: boolean;
+}
+
+export interface DocsNavigationNode {
+  type: "root" | "tab" | "section" | "page" | "link" | "changelog" | "api";
+  title: string;
+  tab?: string;
+  slug?: string;
+  skipSlug?: boolean;
+  hidden?: boolean;
+  icon?: string;
+  href?: string;
+  // Published page (tabs, sections, pages, changelogs and API references)
+  url?: string;
+  // Pages: filePath matches docs_content / elevenlabs_get_doc paths; API references: the API definition directory
+  filePath?: string;
+  indexed?: boolean;
+  blockCount?: number;
+  children?: DocsNavigationNode[];
+}
+
+export interface DocsStructureResult {
+  title: string;
+  tabs: { tab: string; title: string }[];
+  tree: DocsNavigationNode[];
+}
+
+export interface ListResourcesArgs {
+  cursor?: string;
+}
+
+export interface ResourceItem {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ListResourcesResult {
+  resources: ResourceItem[];
+  nextCursor?: string;
+}
+
+export interface ReadResourceResult {
+  contents: { uri: string; mimeType: string; text: string }[];
+}
+
+export interface PromptMessage {
+  role: "user" | "assistant";
+  content: { type: "text"; text: string };
+}
+
+export interface GetPromptResult {
+  description: string;
+  messages: PromptMessage[];
+}
+
+export type TransportType = "stdio" | "sse";
+
+export interface TransportConfig {
+  transport: TransportType;
+  host: string;
+  port: number;
+  authToken?: string;
+}
+
+export interface DescribeSchemaArgs {
+  schemaName: string;
+  depth?: number;
+}
+
+export interface SchemaField {
+  path: string;
+  type: string;
+  required: boolean;
+  nullable: boolean;
+  enum?: any[];
+  default?: any;
+  format?: string;
+  description?: string;
+  variant?: string;
+  recursiveRef?: string;
+  truncated?: boolean;
+}
+
+export interface DescribeSchemaResult {
+  name: string;
+  description: string | null;
+  type: string;
+  variants?: string[];
+  fields: SchemaField[];
+  table: string;
+  path: string;
+  repository: string;
+  url: string;
+  sourceUrl: string;
+  resourceUri: string;
+}
+
+export interface SchemaUsageArgs extends GetEndpointArgs {
+  schemaName?: string;
+  includeNested?: boolean;
+}
+
+export interface SchemaUsage {
+  role: "requestBody" | "response" | "parameter" | "message" | "unknown";
+  status?: string;
+  contentType?: string;
+  parameter?: string;
+  in?: string;
+  // WebSocket messages: who sends it, seen from the client ("send" or "receive"), and the message name
+  direction?: "send" | "receive";
+  message?: string;
+  nested: boolean;
+  fieldPath?: string;
+  viaSchema?: string;
+}
+
+export interface SchemaUsageEndpoint {
+  method: string;
+  apiPath: string;
+  operationId: string | null;
+  usages: SchemaUsage[];
+  resourceUri: string;
+}
+
+export interface SchemaUsageChannel {
+  address: string;
+  usages: SchemaUsage[];
+}
+
+export interface SchemaUsageSchema {
+  schemaName: string;
+  usages: SchemaUsage[];
+  resourceUri: string;
+}
+
+export interface SchemaUsageResult {
+  direction: "schema" | "endpoint";
+  schemaName?: string;
+  method?: string;
+  apiPath?: string;
+  operationId?: string | null;
+  endpoints?: SchemaUsageEndpoint[];
+  channels?: SchemaUsageChannel[];
+  schemas?: SchemaUsageSchema[];
+}
+
+export interface FindCodeExamplesArgs {
+  query?: string;
+  language?: string;
+  apiPath?: string;
+  sdkCall?: string;
+  limit?: number;
+}
+
+export interface CodeExample {
+  language: string | null;
+  code: string;
+  breadcrumb: string[];
+  intro: string | null;
+  name: string;
+  path: string;
+  lineNumber?: number;
+  source: string;
+  repository: string;
+  url: string;
+  sourceUrl: string;
+  resourceUri: string;
+}
+
+export interface FindCodeExamplesResult {
+  examples: CodeExample[];
+  totalMatches: number;
+  docsCommitSha: string | null;
+}
+
+export interface ApiChangesArgs {
+  format?: "json" | "markdown";
+  breakingOnly?: boolean;
+}
+
+export interface ApiSnapshotInfo {
+  path: string;
+  modifiedAt: string | null;
+}
+
+export interface EndpointChange {
+  method: string;
+  apiPath: string;
+  operationId: string | null;
+  breaking: boolean;
+}
+
+export interface SchemaFieldChange {
+  kind: "fieldAdded" | "fieldRemoved" | "typeChanged" | "becameRequired" | "becameOptional" | "enumValuesAdded" | "enumValuesRemoved";
+  path: string;
+  detail: string;
+  breaking: boolean;
+}
+
+export interface SchemaChange {
+  name: string;
+  breaking: boolean;
+  changes: SchemaFieldChange[];
+}
+
+export interface ApiChangesResult {
+  previous: ApiSnapshotInfo;
+  current: ApiSnapshotInfo;
+  summary: { breaking: number; nonBreaking: number };
+  endpoints: { added: EndpointChange[]; removed: EndpointChange[] };
+  schemas: { added: SchemaChange[]; removed: SchemaChange[]; changed: SchemaChange[] };
+  markdown?: string;
+}
+
+export interface IndexInfoResult {
+  docsCommitSha: string | null;
+  docsCommitDate: string | null;
+  builtAt: string | null;
+  etlVersion: string | null;
+  tableRowCounts: Record<string, number>;
+  failedFileCount: number | null;
+  failedFiles: string[];
+  sources: IndexedSource[];
+  dataDir: string;
+}
+
+export interface IndexedSource {
+  name: string;
+  repository: string;
+  commitSha: string | null;
+  commitDate: string | null;
+}
+
+// Reports progress of a long-running tool call (MCP notifications/progress)
+export type ProgressCallback = (progress: number, total: number) => void;
+
+export interface ReindexResult {
+  previousDocsCommitSha: string | null;
+  index: IndexInfoResult;
+  durationMs: number;
+}
+
+export interface GenerateTypesArgs extends GetEndpointArgs {
+  schemaNames?: string[];
+  zod?: boolean;
+}
+
+export interface GenerateTypesResult {
+  // The requested schemas, or the endpoint's request and response types
+  roots: string[];
+  // Every type in code, dependencies first
+  types: string[];
+  zod: boolean;
+  endpoint?: { method: string; apiPath: string; operationId: string | null };
+  code: string;
+  docsCommitSha: string | null;
 }